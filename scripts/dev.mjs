@@ -10,6 +10,8 @@ const serverCtx = await esbuild.context({
     format: 'cjs',
     entryPoints: [serverEntryPoint],
     outfile: 'dist/server.js',
+    // Native modules can't be bundled, they are loaded from node_modules
+    external: ['better-sqlite3'],
 })
 
 const testsEntryPoints = 'src/**/*.test.ts'
@@ -22,7 +24,7 @@ const testsCtx = await esbuild.context({
     outdir: '__tests__',
     // Jest panics if it sees a require('@jest/globals') call in a test file,
     // so we need to tell esbuild to exclude it from the bundle.
-    external: ['@jest/globals'],
+    external: ['@jest/globals', 'better-sqlite3'],
     entryPoints: globSync(testsEntryPoints),
 })
 
@@ -0,0 +1,205 @@
+import crypto from 'crypto'
+import http from 'http'
+import { z } from 'zod'
+
+import * as core from './core'
+
+// Who made a request, and what it may do. There are three ways to authenticate:
+// - service clients send an API key in the X-Api-Key header. Keys are created by the admins,
+//   and only their hash is stored.
+// - end users send a bearer token in the Authorization header. Tokens are signed with the
+//   secret of the config, so they are checked without a database call.
+// - the X-Admin-Token of the config, which is how the first API keys get created.
+export type Identity = {
+    type: 'api_key' | 'token' | 'admin_token'
+    // the username of the reviews posted by the requester
+    name: string
+    scopes: core.AuthScope[]
+}
+
+export type AuthOptions = {
+    // when not set, the X-Admin-Token header is not accepted
+    adminToken: string | undefined
+    // when not set, bearer tokens are not accepted
+    tokenSecret: string | undefined
+    apiKeys: core.ApiKeyRepository
+    // for the tests
+    now?: () => number
+}
+
+export type AuthenticateResult =
+    | { type: 'success'; value: Identity }
+    // no credentials were sent at all
+    | { type: 'anonymous' }
+    | { type: 'invalid'; error: Error }
+    | { type: 'database_error'; error: Error }
+
+export function hasScope(identity: Identity, scope: core.AuthScope): boolean {
+    return identity.scopes.includes('admin') || identity.scopes.includes(scope)
+}
+
+// Compares the secrets in constant time, so their content can't be guessed by timing the requests
+function secretsEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a)
+    const bufferB = Buffer.from(b)
+    return (
+        bufferA.length === bufferB.length &&
+        crypto.timingSafeEqual(bufferA, bufferB)
+    )
+}
+
+// The prefix tells the keys apart from other secrets, in logs or leaked files
+export function generateApiKey(): string {
+    return `nfk_${crypto.randomBytes(32).toString('base64url')}`
+}
+
+// The keys are random and long enough that a plain hash is safe to store, unlike passwords
+export function hashApiKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex')
+}
+
+const tokenPayloadJson = z.object({
+    // the username
+    sub: z.string().min(1),
+    scopes: z.array(z.enum(core.authScopes)),
+    // when the token expires, in seconds since the epoch like JWTs do
+    exp: z.number().int(),
+})
+
+export type TokenPayload = z.infer<typeof tokenPayloadJson>
+
+function tokenSignature(encodedPayload: string, secret: string): string {
+    return crypto
+        .createHmac('sha256', secret)
+        .update(encodedPayload)
+        .digest('base64url')
+}
+
+// The token is the payload in base64url, a dot, and the HMAC-SHA256 of the former
+export function signToken(payload: TokenPayload, secret: string): string {
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString(
+        'base64url'
+    )
+    return `${encodedPayload}.${tokenSignature(encodedPayload, secret)}`
+}
+
+export type VerifyTokenResult =
+    | { type: 'success'; value: TokenPayload }
+    | { type: 'invalid' }
+    | { type: 'expired' }
+
+export function verifyToken(
+    token: string,
+    secret: string,
+    now: number = Date.now()
+): VerifyTokenResult {
+    const [encodedPayload, signature, ...rest] = token.split('.')
+    if (
+        encodedPayload === undefined ||
+        signature === undefined ||
+        rest.length > 0
+    ) {
+        return { type: 'invalid' }
+    }
+
+    if (!secretsEqual(signature, tokenSignature(encodedPayload, secret))) {
+        return { type: 'invalid' }
+    }
+
+    let decoded: unknown
+    try {
+        decoded = JSON.parse(
+            Buffer.from(encodedPayload, 'base64url').toString('utf8')
+        )
+    } catch {
+        return { type: 'invalid' }
+    }
+
+    const parseResult = tokenPayloadJson.safeParse(decoded)
+    if (!parseResult.success) return { type: 'invalid' }
+
+    const payload = parseResult.data
+    if (payload.exp * 1000 <= now) return { type: 'expired' }
+
+    return { type: 'success', value: payload }
+}
+
+// Looks at the credentials of the request, in this order: the bearer token, the API key and the
+// admin token. Only the first one sent is checked.
+export async function authenticate(
+    req: http.IncomingMessage,
+    options: AuthOptions
+): Promise<AuthenticateResult> {
+    const now = options.now ?? Date.now
+
+    const authorization = req.headers['authorization']
+    if (authorization !== undefined) {
+        const match = /^Bearer (\S+)$/i.exec(authorization)
+        if (match === null || match[1] === undefined) {
+            return {
+                type: 'invalid',
+                error: new Error('Only bearer tokens are accepted'),
+            }
+        }
+        if (options.tokenSecret === undefined) {
+            return {
+                type: 'invalid',
+                error: new Error('Bearer tokens are not enabled'),
+            }
+        }
+
+        const result = verifyToken(match[1], options.tokenSecret, now())
+        if (result.type === 'invalid') {
+            return { type: 'invalid', error: new Error('Invalid token') }
+        }
+        if (result.type === 'expired') {
+            return { type: 'invalid', error: new Error('The token expired') }
+        }
+
+        return {
+            type: 'success',
+            value: {
+                type: 'token',
+                name: result.value.sub,
+                scopes: result.value.scopes,
+            },
+        }
+    }
+
+    const apiKey = req.headers['x-api-key']
+    if (typeof apiKey === 'string') {
+        const result = await options.apiKeys.findApiKeyByHash(
+            hashApiKey(apiKey)
+        )
+        if (result.type === 'record_not_found') {
+            return { type: 'invalid', error: new Error('Invalid API key') }
+        }
+        if (result.type === 'database_error') return result
+
+        return {
+            type: 'success',
+            value: {
+                type: 'api_key',
+                name: result.value.name,
+                scopes: result.value.scopes,
+            },
+        }
+    }
+
+    const adminToken = req.headers['x-admin-token']
+    if (typeof adminToken === 'string') {
+        if (
+            options.adminToken === undefined ||
+            !secretsEqual(adminToken, options.adminToken)
+        ) {
+            return { type: 'invalid', error: new Error('Invalid admin token') }
+        }
+
+        return {
+            type: 'success',
+            value: { type: 'admin_token', name: 'admin', scopes: ['admin'] },
+        }
+    }
+
+    return { type: 'anonymous' }
+}
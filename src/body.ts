@@ -0,0 +1,101 @@
+import http from 'http'
+
+export type BodyLimits = {
+    maxBytes: number
+    // how long the whole body may take to arrive
+    timeoutMs: number
+}
+
+export type ReadBodyResult =
+    | { type: 'success'; value: unknown }
+    | { type: 'unsupported_media_type' }
+    | { type: 'too_large' }
+    | { type: 'malformed' }
+    | { type: 'timeout' }
+    // the client went away before sending the whole body, there's no one to answer to
+    | { type: 'aborted' }
+
+// application/json, with or without parameters like the charset, and its variants like
+// application/merge-patch+json
+function isJsonContentType(header: string | undefined): boolean {
+    if (header === undefined) return false
+
+    const mediaType = header.split(';')[0]?.trim().toLowerCase() ?? ''
+    return (
+        mediaType === 'application/json' ||
+        /^application\/[a-z0-9.-]+\+json$/.test(mediaType)
+    )
+}
+
+// Reads the whole body of the request and parses it as json. The body is not read further once
+// it's over the size limit, or when it takes too long.
+export function readJsonBody(
+    req: http.IncomingMessage,
+    limits: BodyLimits
+): Promise<ReadBodyResult> {
+    if (!isJsonContentType(req.headers['content-type'])) {
+        return Promise.resolve({ type: 'unsupported_media_type' })
+    }
+
+    // No need to wait for the body when the client already tells us it's too large
+    const declaredLength = Number(req.headers['content-length'])
+    if (declaredLength > limits.maxBytes) {
+        return Promise.resolve({ type: 'too_large' })
+    }
+
+    return new Promise((resolve) => {
+        const chunks: Buffer[] = []
+        let size = 0
+        let done = false
+
+        const finish = (result: ReadBodyResult) => {
+            if (done) return
+            done = true
+
+            clearTimeout(timer)
+            req.off('data', onData)
+            req.off('end', onEnd)
+            req.off('error', onAborted)
+            req.off('close', onAborted)
+
+            // The rest of the body is left unread, the connection is closed after the response
+            if (result.type === 'too_large' || result.type === 'timeout') {
+                req.pause()
+            }
+
+            resolve(result)
+        }
+
+        const onData = (chunk: Buffer) => {
+            size += chunk.length
+            if (size > limits.maxBytes) {
+                finish({ type: 'too_large' })
+                return
+            }
+
+            chunks.push(chunk)
+        }
+
+        const onEnd = () => {
+            try {
+                const text = Buffer.concat(chunks).toString('utf8')
+                finish({ type: 'success', value: JSON.parse(text) })
+            } catch {
+                finish({ type: 'malformed' })
+            }
+        }
+
+        // "close" is emitted after "end" too, but by then the body was already read
+        const onAborted = () => finish({ type: 'aborted' })
+
+        const timer = setTimeout(
+            () => finish({ type: 'timeout' }),
+            limits.timeoutMs
+        )
+
+        req.on('data', onData)
+        req.on('end', onEnd)
+        req.on('error', onAborted)
+        req.on('close', onAborted)
+    })
+}
@@ -0,0 +1,101 @@
+import * as core from './core'
+import { MetricsRegistry } from './metrics'
+
+export type CacheOptions = {
+    // the least recently used businesses are dropped past this
+    maxEntries: number
+    // how long a business is served from the cache, which bounds how stale it can be when other
+    // servers write to the same database
+    ttlMs: number
+    // where the hits and misses are counted
+    metrics: MetricsRegistry
+    // for the tests
+    now?: () => number
+}
+
+type CacheEntry = { business: core.Business; expiresAt: number }
+
+// Wraps a repository, keeping the businesses it fetches in memory. Every write that changes what
+// getBusiness returns drops the business from the cache, the rest of the calls go straight to
+// the wrapped repository.
+export function createCachedStore(
+    db: core.BusinessRepository,
+    options: CacheOptions
+): core.BusinessRepository {
+    const now = options.now ?? Date.now
+    const hits = options.metrics.counter(
+        'business_cache_hits_total',
+        'Businesses served from the cache'
+    )
+    const misses = options.metrics.counter(
+        'business_cache_misses_total',
+        'Businesses not found in the cache, or found expired'
+    )
+
+    // Maps keep the insertion order, so re-inserting on every hit leaves the least recently used
+    // business first
+    const entries = new Map<core.BusinessId, CacheEntry>()
+    // Counts the invalidations, so a fetch that raced with a write doesn't cache what it got
+    let invalidations = 0
+
+    function invalidate(businessId: core.BusinessId) {
+        invalidations += 1
+        entries.delete(businessId)
+    }
+
+    // Drops the business once the write is done, whatever its result. A failed write may have
+    // changed the business anyway, and fetching it again is cheap.
+    function invalidating<Args extends [core.BusinessId, ...unknown[]], Result>(
+        write: (...args: Args) => Promise<Result>
+    ): (...args: Args) => Promise<Result> {
+        return async (...args) => {
+            try {
+                return await write(...args)
+            } finally {
+                invalidate(args[0])
+            }
+        }
+    }
+
+    return {
+        ...db,
+
+        async getBusiness(
+            id: core.BusinessId
+        ): core.RepositoryFetchResult<core.Business> {
+            const entry = entries.get(id)
+            if (entry !== undefined && entry.expiresAt > now()) {
+                hits.inc()
+                entries.delete(id)
+                entries.set(id, entry)
+                return { type: 'success', value: entry.business }
+            }
+
+            misses.inc()
+            entries.delete(id)
+            const invalidationsBefore = invalidations
+            const result = await db.getBusiness(id)
+            if (result.type !== 'success') return result
+            if (invalidations !== invalidationsBefore) return result
+
+            entries.set(id, {
+                business: result.value,
+                expiresAt: now() + options.ttlMs,
+            })
+            for (const oldest of entries.keys()) {
+                if (entries.size <= options.maxEntries) break
+                entries.delete(oldest)
+            }
+
+            return result
+        },
+
+        updateBusiness: invalidating(db.updateBusiness),
+        deleteBusiness: invalidating(db.deleteBusiness),
+        createReview: invalidating(db.createReview),
+        updateReview: invalidating(db.updateReview),
+        deleteReview: invalidating(db.deleteReview),
+        moderateReview: invalidating(db.moderateReview),
+        replyToReview: invalidating(db.replyToReview),
+    }
+}
@@ -1,28 +1,291 @@
 import dotenv from 'dotenv'
+import fs from 'fs'
+import { z } from 'zod'
 
 dotenv.config()
 
-function getEnv(name: string): string {
-    const value = process.env[name]
-    if (value === undefined) {
-        console.error(`Fatal error: Env var ${name} not found`)
-        process.exit(1)
+// Env vars are always strings, while the config file has proper json types. These accept both.
+const numberJson = z.coerce.number()
+const booleanJson = z.union([
+    z.boolean(),
+    z.enum(['true', 'false']).transform((value) => value === 'true'),
+])
+const listJson = z.union([
+    z.array(z.string()),
+    z.string().transform((value) =>
+        value
+            .split(',')
+            .map((item) => item.trim())
+            .filter((item) => item !== '')
+    ),
+])
+
+const mongoConfigJson = z
+    .object({
+        // When given, the rest of the connection settings are ignored
+        uri: z.string().startsWith('mongodb').optional(),
+        host: z.string().min(1).default('localhost'),
+        port: numberJson
+            .pipe(z.number().int().min(1).max(65535))
+            .default(27017),
+        dbName: z.string().min(1).default('nofakes'),
+        user: z.string().min(1).optional(),
+        password: z.string().min(1).optional(),
+    })
+    .refine(
+        (mongo) =>
+            (mongo.user === undefined) === (mongo.password === undefined),
+        {
+            message: 'The user and the password must be given together',
+            path: ['password'],
+        }
+    )
+
+export type MongoConfig = z.infer<typeof mongoConfigJson>
+
+const sqliteConfigJson = z.object({
+    // The database file, created when missing. ":memory:" keeps it in memory instead.
+    path: z.string().min(1).default('nofakes.sqlite'),
+})
+
+export type SqliteConfig = z.infer<typeof sqliteConfigJson>
+
+// See core.RateLimit
+const rateLimitJson = (defaults: {
+    capacity: number
+    refillPerMinute: number
+}) =>
+    z
+        .object({
+            capacity: numberJson
+                .pipe(z.number().int().min(1))
+                .default(defaults.capacity),
+            refillPerMinute: numberJson
+                .pipe(z.number().positive())
+                .default(defaults.refillPerMinute),
+        })
+        .default({})
+
+export const configJson = z
+    .object({
+        port: numberJson.pipe(z.number().int().min(0).max(65535)).default(3000),
+        // Where the businesses and their reviews are kept. The in memory one is lost on restarts,
+        // and the sqlite one is a single file, which needs no database server.
+        store: z.enum(['mongodb', 'sqlite', 'inmem']).default('mongodb'),
+        mongo: mongoConfigJson.default({}),
+        sqlite: sqliteConfigJson.default({}),
+        // Requests sending this token in the X-Admin-Token header can do anything, like creating
+        // the API keys. When it's not set, only API keys and bearer tokens are accepted.
+        adminToken: z.string().min(1).optional(),
+        // The bearer tokens of the end users, see auth.ts
+        auth: z
+            .object({
+                // The tokens are signed with it. When it's not set, they are not accepted.
+                tokenSecret: z.string().min(32).optional(),
+                // How long the tokens last when they are created without a lifetime
+                tokenTtlSeconds: numberJson
+                    .pipe(z.number().int().min(1))
+                    .default(60 * 60),
+            })
+            .default({}),
+        // Origins that browsers may call the api from, "*" allows any
+        corsOrigins: listJson.default([]),
+        // Requests with larger bodies, or that take longer to send them, are rejected
+        body: z
+            .object({
+                maxBytes: numberJson
+                    .pipe(z.number().int().min(1))
+                    .default(100 * 1024),
+                timeoutMs: numberJson
+                    .pipe(z.number().int().min(1))
+                    .default(10 * 1000),
+            })
+            .default({}),
+        // The businesses are kept in memory for GET /business/:id, see cached_store.ts
+        cache: z
+            .object({
+                maxEntries: numberJson
+                    .pipe(z.number().int().min(1))
+                    .default(1000),
+                ttlMs: numberJson
+                    .pipe(z.number().int().min(1))
+                    .default(30 * 1000),
+            })
+            .default({}),
+        // How many requests a client and a user can send in a burst, and how many a minute after
+        // that, for every route that is limited. Clients are told apart by their ip.
+        rateLimit: z
+            .object({
+                createReview: rateLimitJson({
+                    capacity: 5,
+                    refillPerMinute: 1,
+                }),
+                reportReview: rateLimitJson({
+                    capacity: 10,
+                    refillPerMinute: 2,
+                }),
+            })
+            .default({}),
+        // How long the responses of POST requests with an Idempotency-Key are kept, for the
+        // clients that retry them
+        idempotency: z
+            .object({
+                ttlMs: numberJson
+                    .pipe(z.number().int().min(1))
+                    .default(24 * 60 * 60 * 1000),
+            })
+            .default({}),
+        // How long the requests in flight have to finish when the server is stopped
+        shutdownTimeoutMs: numberJson
+            .pipe(z.number().int().min(0))
+            .default(10 * 1000),
+        // Messages below this level are not logged
+        logLevel: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+        features: z
+            .object({
+                // Scoring new reviews, see fake_detection.ts. When off they are all approved.
+                fakeDetection: booleanJson.default(true),
+                // The Strict-Transport-Security header, which only makes sense behind https
+                hsts: booleanJson.default(true),
+                // Caching the businesses, see the cache settings above
+                businessCache: booleanJson.default(true),
+                // The rate limits above
+                rateLimit: booleanJson.default(true),
+            })
+            .default({}),
+    })
+    .strict()
+
+export type Config = z.infer<typeof configJson>
+
+// The env var of each setting. They take precedence over the config file.
+const envVars: { [name: string]: string[] } = {
+    SERVER_PORT: ['port'],
+    STORE: ['store'],
+    MONGO_URI: ['mongo', 'uri'],
+    MONGO_HOST: ['mongo', 'host'],
+    MONGO_PORT: ['mongo', 'port'],
+    MONGO_DATABASE: ['mongo', 'dbName'],
+    MONGO_USER: ['mongo', 'user'],
+    MONGO_PASSWORD: ['mongo', 'password'],
+    SQLITE_PATH: ['sqlite', 'path'],
+    ADMIN_TOKEN: ['adminToken'],
+    AUTH_TOKEN_SECRET: ['auth', 'tokenSecret'],
+    AUTH_TOKEN_TTL_SECONDS: ['auth', 'tokenTtlSeconds'],
+    CORS_ORIGINS: ['corsOrigins'],
+    BODY_MAX_BYTES: ['body', 'maxBytes'],
+    BODY_TIMEOUT_MS: ['body', 'timeoutMs'],
+    CACHE_MAX_ENTRIES: ['cache', 'maxEntries'],
+    CACHE_TTL_MS: ['cache', 'ttlMs'],
+    RATE_LIMIT_REVIEWS_CAPACITY: ['rateLimit', 'createReview', 'capacity'],
+    RATE_LIMIT_REVIEWS_PER_MINUTE: [
+        'rateLimit',
+        'createReview',
+        'refillPerMinute',
+    ],
+    RATE_LIMIT_REPORTS_CAPACITY: ['rateLimit', 'reportReview', 'capacity'],
+    RATE_LIMIT_REPORTS_PER_MINUTE: [
+        'rateLimit',
+        'reportReview',
+        'refillPerMinute',
+    ],
+    IDEMPOTENCY_TTL_MS: ['idempotency', 'ttlMs'],
+    SHUTDOWN_TIMEOUT_MS: ['shutdownTimeoutMs'],
+    LOG_LEVEL: ['logLevel'],
+    FEATURE_FAKE_DETECTION: ['features', 'fakeDetection'],
+    FEATURE_HSTS: ['features', 'hsts'],
+    FEATURE_BUSINESS_CACHE: ['features', 'businessCache'],
+    FEATURE_RATE_LIMIT: ['features', 'rateLimit'],
+}
+
+type Env = { [name: string]: string | undefined }
+
+export type LoadConfigResult =
+    | { type: 'success'; value: Config }
+    // every problem found, meant to be shown as they are
+    | { type: 'invalid'; errors: string[] }
+
+type JsonObject = { [key: string]: unknown }
+
+function isJsonObject(value: unknown): value is JsonObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Sets the value at the path, creating the objects in between. Whatever is not an object on
+// the way is replaced, the validation tells about it anyway.
+function setPath(target: JsonObject, path: string[], value: string) {
+    const [key, ...rest] = path
+    if (key === undefined) return
+
+    if (rest.length === 0) {
+        target[key] = value
+        return
     }
 
-    return value
+    const child = target[key]
+    const childObject = isJsonObject(child) ? child : {}
+    target[key] = childObject
+    setPath(childObject, rest, value)
 }
 
-// This prevents port conflicts when runnint the dev api server and the integration tests
-let port = getEnv('SERVER_PORT')
-if (process.env['NODE_ENV'] === 'test') {
-    port += 1
+function describePath(path: (string | number)[]): string {
+    const setting = path.join('.')
+    const envVar = Object.entries(envVars).find(
+        ([, envPath]) => envPath.join('.') === setting
+    )?.[0]
+
+    return envVar === undefined ? setting : `${setting} (${envVar})`
+}
+
+// Reads the config out of the env vars, and out of the json file at CONFIG_FILE when it's set.
+// Empty env vars count as not set, like the optional ones of example.env.
+export function loadConfig(env: Env = process.env): LoadConfigResult {
+    const errors: string[] = []
+
+    let input: JsonObject = {}
+    const configFile = env['CONFIG_FILE']
+    if (configFile !== undefined && configFile !== '') {
+        try {
+            const parsed: unknown = JSON.parse(
+                fs.readFileSync(configFile, 'utf8')
+            )
+            if (isJsonObject(parsed)) {
+                input = parsed
+            } else {
+                errors.push(
+                    `Config file ${configFile} must contain a json object`
+                )
+            }
+        } catch (err) {
+            errors.push(`Could not read config file ${configFile}: ${err}`)
+        }
+    }
+
+    for (const [name, path] of Object.entries(envVars)) {
+        const value = env[name]
+        if (value !== undefined && value !== '') setPath(input, path, value)
+    }
+
+    const result = configJson.safeParse(input)
+    if (!result.success) {
+        for (const issue of result.error.issues) {
+            errors.push(`${describePath(issue.path)}: ${issue.message}`)
+        }
+    }
+
+    if (errors.length > 0 || !result.success) return { type: 'invalid', errors }
+
+    return { type: 'success', value: result.data }
 }
 
-export default {
-    port,
-    mongo: {
-        dbName: getEnv('MONGO_DATABASE'),
-        user: getEnv('MONGO_USER'),
-        password: getEnv('MONGO_PASSWORD'),
-    },
+export function mongoUrl(mongo: MongoConfig): string {
+    if (mongo.uri !== undefined) return mongo.uri
+
+    const auth =
+        mongo.user !== undefined && mongo.password !== undefined
+            ? `${encodeURIComponent(mongo.user)}:${encodeURIComponent(
+                  mongo.password
+              )}@`
+            : ''
+    return `mongodb://${auth}${mongo.host}:${mongo.port}/?retryWrites=true&w=majority`
 }
@@ -9,7 +9,11 @@ export type OnlineBusiness = {
     email: string
     total_reviews: number
     avg_rating: number
+    rating_histogram: RatingHistogram
     latest_reviews: Review[]
+    // Starts at 1 and grows on every change of the record, including new reviews.
+    // It's used for optimistic concurrency control.
+    version: number
 }
 
 // All data that represents a physical business record
@@ -21,7 +25,11 @@ export type PhysicalBusiness = {
     email: string
     total_reviews: number
     avg_rating: number
+    rating_histogram: RatingHistogram
     latest_reviews: Review[]
+    // Starts at 1 and grows on every change of the record, including new reviews.
+    // It's used for optimistic concurrency control.
+    version: number
 }
 
 // All possible business records. This may or may not be converted to a discriminated union,
@@ -31,9 +39,25 @@ export type Business =
     | { type: 'physical'; value: PhysicalBusiness }
 
 export type LogLevels = 'info' | 'error' | 'warn' | 'debug'
-export type Logger = (lvl: LogLevels, msg: string) => void
+
+// Extra data of a log message, like { business_id: '1' }. Errors are logged with their stack.
+export type LogFields = { [field: string]: unknown }
+
+// Logs structured messages, see logger.ts
+export type Logger = {
+    debug: (msg: string, fields?: LogFields) => void
+    info: (msg: string, fields?: LogFields) => void
+    warn: (msg: string, fields?: LogFields) => void
+    error: (msg: string, fields?: LogFields) => void
+    // A logger that adds the fields to all of its messages, like the id of a request
+    child: (fields: LogFields) => Logger
+}
+
+export type ReviewId = string
 
 export type Review = {
+    id: ReviewId
+
     // "business_id" is not explicitly defined in the requirements,
     // but we need it in order to get reviews of a business
     business_id: BusinessId
@@ -42,8 +66,140 @@ export type Review = {
     rating: number
     username: string
     creation_date: Date
+
+    // Only approved reviews count in the aggregates and show up in the latest reviews of the
+    // business. Reviews flagged by the fake review detection start as pending, the rest are
+    // approved right away. Admins can move any review to approved or rejected.
+    status: ReviewStatus
+    // The reason the admin gave on the last approval or rejection
+    moderation_reason: string | null
+
+    // Set by the fake review detection when the review is created, see fake_detection.ts
+    fake_score: number
+    fake_reasons: string[]
+
+    // The public answer of the business, null until it replies
+    reply: ReviewReply | null
+}
+
+export type ReviewReply = {
+    text: string
+    creation_date: Date
+    // same as the creation date until the reply is edited
+    update_date: Date
+}
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected'
+
+// Sent by users that think a review should not be there
+export type ReviewReport = {
+    reason: string
+    creation_date: Date
+}
+
+export type ModerationDecision = {
+    status: 'approved' | 'rejected'
+    reason: string
+}
+
+// What a reply write expects of the review: "create" that it has no reply yet, and "update" (also
+// for deleting it) that it has one
+export type ReplyMode = 'create' | 'update'
+
+// "pending" holds the reviews waiting for an approval, and "reported" the ones with reports that
+// no admin has looked at yet
+export type ModerationQueue = 'pending' | 'reported'
+
+export type ModerationQueueItem = {
+    review: Review
+    // all the reports the review ever got, oldest first
+    reports: ReviewReport[]
+}
+
+// How many reviews a business got of every star rating
+export type RatingHistogram = {
+    1: number
+    2: number
+    3: number
+    4: number
+    5: number
+}
+
+// The aggregates of all the reviews of a business. Every store keeps them up to date on every
+// review write, and the "total_reviews" and "avg_rating" of a business are derived out of them.
+// Only the 3 "latest_reviews" are kept in the business, so they can't be used for this.
+export type ReviewAggregates = {
+    total_reviews: number
+    rating_sum: number
+    rating_histogram: RatingHistogram
+}
+
+export function emptyAggregates(): ReviewAggregates {
+    return {
+        total_reviews: 0,
+        rating_sum: 0,
+        rating_histogram: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
+    }
+}
+
+// Ratings are validated before reaching the stores, so they are always integers between 1 and 5
+export function histogramKey(rating: number): keyof RatingHistogram {
+    if (
+        rating === 1 ||
+        rating === 2 ||
+        rating === 3 ||
+        rating === 4 ||
+        rating === 5
+    ) {
+        return rating
+    }
+
+    throw new Error(`Invalid rating ${rating}`)
+}
+
+export function addRating(
+    aggregates: ReviewAggregates,
+    rating: number
+): ReviewAggregates {
+    const key = histogramKey(rating)
+    return {
+        total_reviews: aggregates.total_reviews + 1,
+        rating_sum: aggregates.rating_sum + rating,
+        rating_histogram: {
+            ...aggregates.rating_histogram,
+            [key]: aggregates.rating_histogram[key] + 1,
+        },
+    }
 }
 
+// The opposite of addRating, for when a review is removed or its rating changes
+export function removeRating(
+    aggregates: ReviewAggregates,
+    rating: number
+): ReviewAggregates {
+    const key = histogramKey(rating)
+    return {
+        total_reviews: aggregates.total_reviews - 1,
+        rating_sum: aggregates.rating_sum - rating,
+        rating_histogram: {
+            ...aggregates.rating_histogram,
+            [key]: aggregates.rating_histogram[key] - 1,
+        },
+    }
+}
+
+// The average rating, rounded down to one decimal. 0 when there are no reviews.
+export function averageRating(aggregates: ReviewAggregates): number {
+    if (aggregates.total_reviews === 0) return 0
+
+    const avg = aggregates.rating_sum / aggregates.total_reviews
+    return Math.floor(avg * 10) / 10
+}
+
+// The error of a database_error result when the database could not be reached at all, as opposed
+// to a failing operation. Retrying later may work for these.
+export class DatabaseUnavailableError extends Error {}
+
 // represents the response after editing a record of the database layer
 export type RepositoryEditResult<T> = Promise<
     { type: 'success'; value: T } | { type: 'database_error'; error: Error }
@@ -55,6 +211,40 @@ export type RepositoryFetchResult<T> = Promise<
     | { type: 'database_error'; error: Error }
 >
 
+// represents the response after editing a record that must exist, and optionally must be
+// at a certain version
+export type RepositoryWriteResult<T> = Promise<
+    | { type: 'success'; value: T }
+    | { type: 'record_not_found' }
+    | { type: 'version_mismatch' }
+    | { type: 'database_error'; error: Error }
+>
+
+// represents the response after writing the reply of a review, which may have to exist or not
+// (see ReplyMode)
+export type RepositoryReplyResult = Promise<
+    | { type: 'success'; value: Review }
+    | { type: 'record_not_found' }
+    | { type: 'reply_exists' }
+    | { type: 'reply_not_found' }
+    | { type: 'database_error'; error: Error }
+>
+
+// represents the response after querying many records, where finding none is not an error
+export type RepositoryListResult<T> = Promise<
+    { type: 'success'; value: T } | { type: 'database_error'; error: Error }
+>
+
+// represents the response of a health check of the database
+export type RepositoryPingResult = Promise<
+    { type: 'success' } | { type: 'database_error'; error: Error }
+>
+
+// represents the response after a write that has nothing to return
+export type RepositoryVoidResult = Promise<
+    { type: 'success' } | { type: 'database_error'; error: Error }
+>
+
 // These are the inputs that the database layer needs in order to save data
 
 export type CreateOnlineBusinessData = {
@@ -70,13 +260,98 @@ export type CreatePhysicalBusinessData = {
     email: string
 }
 
+// Only the given fields are updated. Fields that don't belong to the type of the business
+// (like the website of a physical business) must not be given.
+export type UpdateBusinessData = Partial<
+    CreateOnlineBusinessData & CreatePhysicalBusinessData
+>
+
 export type CreateReviewData = {
     text: string
     rating: number
     username: string
+
+    // The stores keep the ip only for the fake review detection, it's never part of a Review
+    client_ip?: string
+    // Reviews that skip the detection are approved and get a 0 score. Flagged ones are pending.
+    detection?: {
+        score: number
+        reasons: string[]
+        flagged: boolean
+    }
+}
+
+// Only the given fields are updated
+export type UpdateReviewData = {
+    text?: string
+    rating?: number
+}
+
+// Used by the fake review detection to look for suspicious patterns
+export type ReviewFilter = {
+    business_id?: BusinessId
+    username?: string
+    client_ip?: string
+    // only reviews created at or after this date
+    since?: Date
+}
+
+export type ReviewSort = 'newest' | 'oldest' | 'highest' | 'lowest'
+
+// Position of a review inside a listing. "seq" is assigned by the stores in insertion order, so
+// it only grows. That's what keeps cursors stable when new reviews arrive between pages.
+export type ReviewCursor = {
+    rating: number
+    seq: number
+}
+
+export type ListReviewsQuery = {
+    sort: ReviewSort
+    // when defined, only reviews with this exact rating are returned
+    rating?: number
+    limit: number
+    // when defined, only reviews placed after this cursor are returned
+    after?: ReviewCursor
+}
+
+export type ReviewsPage = {
+    reviews: Review[]
+    // null when there are no more reviews to fetch
+    next: ReviewCursor | null
+}
+
+// "rating" and "reviews" sort from highest to lowest, "name" sorts alphabetically ignoring case
+export type BusinessSort = 'rating' | 'reviews' | 'name'
+
+// Position of a business inside a listing. "value" is the property used for sorting, and the id
+// breaks the ties between businesses that share that value.
+export type BusinessCursor = {
+    value: number | string
+    id: BusinessId
+}
+
+export type ListBusinessesQuery = {
+    type?: Business['type']
+    min_avg_rating?: number
+    min_total_reviews?: number
+    // both name filters are case insensitive
+    name_prefix?: string
+    name_contains?: string
+    sort: BusinessSort
+    limit: number
+    after?: BusinessCursor
+}
+
+export type BusinessesPage = {
+    businesses: Business[]
+    // null when there are no more businesses to fetch
+    next: BusinessCursor | null
 }
 
 export type BusinessRepository = {
+    // Checks that the database can be used right now, for the readiness of the server
+    ping: () => RepositoryPingResult
+
     createOnlineBusiness: (
         data: CreateOnlineBusinessData
     ) => RepositoryEditResult<OnlineBusiness>
@@ -86,8 +361,224 @@ export type BusinessRepository = {
 
     getBusiness: (id: BusinessId) => RepositoryFetchResult<Business>
 
+    listBusinesses: (
+        query: ListBusinessesQuery
+    ) => RepositoryListResult<BusinessesPage>
+
+    // When "expectedVersion" is defined, the write only happens if the business is at that version
+    updateBusiness: (
+        id: BusinessId,
+        data: UpdateBusinessData,
+        expectedVersion?: number
+    ) => RepositoryWriteResult<Business>
+
+    // Deletes the business along with all its reviews
+    deleteBusiness: (
+        id: BusinessId,
+        expectedVersion?: number
+    ) => RepositoryWriteResult<Business>
+
     createReview: (
         businessId: BusinessId,
         data: CreateReviewData
-    ) => RepositoryEditResult<Review>
+    ) => RepositoryFetchResult<Review>
+
+    // All the review methods take the business id too, a review of another business is not found
+    getReview: (
+        businessId: BusinessId,
+        reviewId: ReviewId
+    ) => RepositoryFetchResult<Review>
+
+    // Both update the aggregates and the latest reviews of the business
+    updateReview: (
+        businessId: BusinessId,
+        reviewId: ReviewId,
+        data: UpdateReviewData
+    ) => RepositoryFetchResult<Review>
+    deleteReview: (
+        businessId: BusinessId,
+        reviewId: ReviewId
+    ) => RepositoryFetchResult<Review>
+
+    // Adds a report to the review, which puts it in the "reported" moderation queue
+    reportReview: (
+        businessId: BusinessId,
+        reviewId: ReviewId,
+        reason: string
+    ) => RepositoryFetchResult<Review>
+
+    // Changes the status of the review, updating the aggregates of the business when the review
+    // starts or stops counting. It takes the review out of the "reported" queue too.
+    moderateReview: (
+        businessId: BusinessId,
+        reviewId: ReviewId,
+        decision: ModerationDecision
+    ) => RepositoryFetchResult<Review>
+
+    // Oldest reviews first, so they are moderated in the order they came in
+    listModerationQueue: (
+        queue: ModerationQueue,
+        limit: number
+    ) => RepositoryListResult<ModerationQueueItem[]>
+
+    // Creates or edits the reply of the business to the review. A null text deletes it. The mode
+    // is checked in the same write, so concurrent replies can't overwrite each other.
+    replyToReview: (
+        businessId: BusinessId,
+        reviewId: ReviewId,
+        text: string | null,
+        options: { mode: ReplyMode }
+    ) => RepositoryReplyResult
+
+    // Returns the newest reviews that match the filter, whatever their status
+    findReviews: (
+        filter: ReviewFilter,
+        limit: number
+    ) => RepositoryListResult<Review[]>
+
+    // The public listing, which only has the approved reviews. The moderators see the rest in the
+    // moderation queues.
+    listReviews: (
+        businessId: BusinessId,
+        query: ListReviewsQuery
+    ) => RepositoryFetchResult<ReviewsPage>
+}
+
+// What an authenticated requester may do. Admins may do everything.
+export const authScopes = ['reviews:write', 'business:write', 'admin'] as const
+export type AuthScope = (typeof authScopes)[number]
+
+export type ApiKeyId = string
+
+// An API key of a service client. Only the hash of the key is kept, the key itself is shown once
+// when it's created.
+export type ApiKey = {
+    id: ApiKeyId
+    // who the key was given to, it's the username of the reviews posted with it
+    name: string
+    key_hash: string
+    scopes: AuthScope[]
+    creation_date: Date
+    // revoked keys are kept, but they can't be used anymore
+    revoked_date: Date | null
+}
+
+export type CreateApiKeyData = {
+    name: string
+    key_hash: string
+    scopes: AuthScope[]
+}
+
+export type ApiKeyRepository = {
+    createApiKey: (data: CreateApiKeyData) => RepositoryEditResult<ApiKey>
+
+    // Only keys that are not revoked are found
+    findApiKeyByHash: (keyHash: string) => RepositoryFetchResult<ApiKey>
+
+    // Newest keys first, revoked ones included
+    listApiKeys: () => RepositoryListResult<ApiKey[]>
+
+    // Revoking a revoked key keeps its first revocation date
+    revokeApiKey: (id: ApiKeyId) => RepositoryFetchResult<ApiKey>
+}
+
+// A token bucket. It holds up to "capacity" tokens and gets "refillPerMinute" of them back every
+// minute, continuously. Every request takes one, and none are let through while it's empty.
+export type RateLimit = {
+    capacity: number
+    refillPerMinute: number
+}
+
+export type RateLimitBucket = {
+    // not rounded, the refill adds fractions of a token
+    tokens: number
+    updated_at: Date
+}
+
+export type RateLimitTake = {
+    allowed: boolean
+    // what is left in the bucket afterwards
+    tokens: number
+}
+
+// The tokens of the bucket once refilled for the time passed since it was last updated. Buckets
+// that don't exist yet are full.
+export function refilledTokens(
+    bucket: RateLimitBucket | undefined,
+    limit: RateLimit,
+    now: Date
+): number {
+    if (bucket === undefined) return limit.capacity
+
+    const elapsedMinutes =
+        Math.max(0, now.getTime() - bucket.updated_at.getTime()) / 60000
+    return Math.min(
+        limit.capacity,
+        bucket.tokens + elapsedMinutes * limit.refillPerMinute
+    )
+}
+
+export function takeRateLimitToken(
+    bucket: RateLimitBucket | undefined,
+    limit: RateLimit,
+    now: Date
+): { bucket: RateLimitBucket; take: RateLimitTake } {
+    const tokens = refilledTokens(bucket, limit, now)
+    const allowed = tokens >= 1
+    const left = allowed ? tokens - 1 : tokens
+
+    return {
+        bucket: { tokens: left, updated_at: now },
+        take: { allowed, tokens: left },
+    }
+}
+
+export type RateLimitRepository = {
+    // Takes a token from the bucket of the key, atomically, so concurrent requests sharing a
+    // bucket can't take the same token
+    takeToken: (
+        key: string,
+        limit: RateLimit,
+        now: Date
+    ) => RepositoryEditResult<RateLimitTake>
+}
+
+// A response as it was sent, so it can be sent again
+export type StoredResponse = {
+    status: number
+    headers: { [name: string]: string }
+    body: string
+}
+
+export type IdempotencyRecord = {
+    // the Idempotency-Key header, scoped to whoever sent it
+    key: string
+    // tells apart the requests that reuse a key for something else
+    fingerprint: string
+    // null while the first request with the key is being handled
+    response: StoredResponse | null
+    expires_at: Date
+}
+
+export type IdempotencyClaim =
+    | { type: 'claimed' }
+    | { type: 'existing'; record: IdempotencyRecord }
+
+export type IdempotencyRepository = {
+    // Saves the record, unless the key has one that did not expire yet. That one is returned then,
+    // so only one request at a time can claim a key.
+    claimIdempotencyKey: (
+        record: IdempotencyRecord,
+        now: Date
+    ) => RepositoryEditResult<IdempotencyClaim>
+
+    // Keeps the response of the request that claimed the key, until "expiresAt"
+    saveIdempotentResponse: (
+        key: string,
+        response: StoredResponse,
+        expiresAt: Date
+    ) => RepositoryVoidResult
+
+    // Forgets the key, so the request can be retried with it
+    releaseIdempotencyKey: (key: string) => RepositoryVoidResult
 }
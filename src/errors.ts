@@ -0,0 +1,169 @@
+import http from 'http'
+import { z } from 'zod'
+
+import { errorResponseJson } from './schemas'
+
+// The body of every error response, see errorResponseJson
+export type ErrorResponse = z.infer<typeof errorResponseJson>
+
+// Stable codes the api consumers can act upon. Messages may change, codes may not.
+export type ErrorCode = ErrorResponse['error']['code']
+
+const errorStatus: { [code in ErrorCode]: number } = {
+    bad_request: 400,
+    validation_failed: 422,
+    unauthorized: 401,
+    forbidden: 403,
+    not_found: 404,
+    method_not_allowed: 405,
+    conflict: 409,
+    precondition_failed: 412,
+    request_timeout: 408,
+    payload_too_large: 413,
+    unsupported_media_type: 415,
+    too_many_requests: 429,
+    internal_error: 500,
+    service_unavailable: 503,
+}
+
+// What is wrong with a single field of the input, like { field: 'value.email', message: 'Invalid email' }
+export type ErrorDetail = ErrorResponse['error']['details'][number]
+
+export function writeApiError(
+    res: http.ServerResponse,
+    code: ErrorCode,
+    message: string,
+    details: ErrorDetail[] = [],
+    headers: http.OutgoingHttpHeaders = {}
+) {
+    const requestId = res.getHeader('X-Request-Id')
+    const body: ErrorResponse = {
+        error: {
+            code,
+            message,
+            details,
+            request_id: typeof requestId === 'string' ? requestId : null,
+        },
+    }
+
+    const json = JSON.stringify(body)
+    res.writeHead(errorStatus[code], {
+        ...headers,
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(json),
+    })
+    res.end(json)
+}
+
+// Turns the zod issues into something an API consumer can act upon. Issues of the whole input
+// (and not of a field of it) get an empty field.
+export function zodErrorDetails(err: z.ZodError): ErrorDetail[] {
+    return err.issues.map((issue) => ({
+        field: issue.path.join('.'),
+        message: issue.message,
+    }))
+}
+
+export function writeBadRequestError(res: http.ServerResponse, err: Error) {
+    writeApiError(res, 'bad_request', err.message)
+}
+
+// Zod errors get a detail per issue, other errors are sent as they are
+export function writeValidationError(
+    res: http.ServerResponse,
+    err: Error | z.ZodError
+) {
+    if (err instanceof z.ZodError) {
+        writeApiError(
+            res,
+            'validation_failed',
+            'Invalid data format',
+            zodErrorDetails(err)
+        )
+        return
+    }
+
+    writeApiError(res, 'validation_failed', err.message)
+}
+
+export function writeNotFoundError(res: http.ServerResponse, err: Error) {
+    writeApiError(res, 'not_found', err.message)
+}
+
+// Tells the client how it may authenticate, see auth.ts
+export function writeUnauthorizedError(res: http.ServerResponse, err: Error) {
+    writeApiError(res, 'unauthorized', err.message, [], {
+        'WWW-Authenticate': 'Bearer',
+    })
+}
+
+export function writeForbiddenError(res: http.ServerResponse, err: Error) {
+    writeApiError(res, 'forbidden', err.message)
+}
+
+export function writeMethodNotAllowedError(
+    res: http.ServerResponse,
+    allowed: string[],
+    err: Error
+) {
+    writeApiError(res, 'method_not_allowed', err.message, [], {
+        Allow: allowed.join(', '),
+    })
+}
+
+export function writeConflictError(res: http.ServerResponse, err: Error) {
+    writeApiError(res, 'conflict', err.message)
+}
+
+export function writePreconditionFailedError(
+    res: http.ServerResponse,
+    err: Error
+) {
+    writeApiError(res, 'precondition_failed', err.message)
+}
+
+// The rest of the body is not read in these two, so the connection can't be reused
+export function writeRequestTimeoutError(res: http.ServerResponse, err: Error) {
+    writeApiError(res, 'request_timeout', err.message, [], {
+        Connection: 'close',
+    })
+}
+
+export function writePayloadTooLargeError(
+    res: http.ServerResponse,
+    err: Error
+) {
+    writeApiError(res, 'payload_too_large', err.message, [], {
+        Connection: 'close',
+    })
+}
+
+export function writeUnsupportedMediaTypeError(
+    res: http.ServerResponse,
+    err: Error
+) {
+    writeApiError(res, 'unsupported_media_type', err.message)
+}
+
+export function writeTooManyRequestsError(
+    res: http.ServerResponse,
+    retryAfterSeconds: number,
+    err: Error
+) {
+    writeApiError(res, 'too_many_requests', err.message, [], {
+        'Retry-After': String(retryAfterSeconds),
+    })
+}
+
+// The message of internal errors is only meant for our logs, clients get a generic one
+export function writeInternalError(res: http.ServerResponse) {
+    writeApiError(res, 'internal_error', 'Internal server error')
+}
+
+export function writeUnavailableError(res: http.ServerResponse) {
+    writeApiError(
+        res,
+        'service_unavailable',
+        'The service is temporarily unavailable, try again later'
+    )
+}
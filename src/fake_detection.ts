@@ -0,0 +1,213 @@
+import * as core from './core'
+
+// Everything we know about a review that is about to be created
+export type ReviewSubmission = {
+    business_id: core.BusinessId
+    text: string
+    rating: number
+    username: string
+    client_ip?: string
+    creation_date: Date
+}
+
+// What a signal found suspicious about a submission. Scores go from 0 to 1.
+export type SignalResult = {
+    score: number
+    reason: string
+}
+
+// A signal looks for one suspicious pattern. It returns undefined when it found nothing.
+// The repository can be used to look at the previous reviews.
+export type FakeSignal = (
+    submission: ReviewSubmission,
+    db: core.BusinessRepository
+) => Promise<SignalResult | undefined | Error>
+
+export type Detection = {
+    score: number
+    reasons: string[]
+    flagged: boolean
+}
+
+export type FakeDetector = (
+    submission: ReviewSubmission
+) => Promise<Detection | Error>
+
+// Reviews scoring this or more are flagged
+export const flagThreshold = 0.6
+
+// Runs all the signals and sums up their scores, up to 1
+export function createFakeDetector(
+    db: core.BusinessRepository,
+    signals: FakeSignal[]
+): FakeDetector {
+    return async (submission) => {
+        let score = 0
+        const reasons: string[] = []
+
+        for (const signal of signals) {
+            const result = await signal(submission, db)
+            if (result instanceof Error) return result
+            if (result === undefined) continue
+
+            score += result.score
+            reasons.push(result.reason)
+        }
+
+        score = Math.min(1, Math.round(score * 100) / 100)
+        return { score, reasons, flagged: score >= flagThreshold }
+    }
+}
+
+async function findReviews(
+    db: core.BusinessRepository,
+    filter: core.ReviewFilter,
+    limit: number
+): Promise<core.Review[] | Error> {
+    const result = await db.findReviews(filter, limit)
+    if (result.type === 'database_error') return result.error
+
+    return result.value
+}
+
+// The same username already reviewed the business
+export function repeatedUsernameSignal(): FakeSignal {
+    return async (submission, db) => {
+        const previous = await findReviews(
+            db,
+            {
+                business_id: submission.business_id,
+                username: submission.username,
+            },
+            1
+        )
+        if (previous instanceof Error) return previous
+        if (previous.length === 0) return undefined
+
+        return {
+            score: 0.6,
+            reason: `${submission.username} already reviewed this business`,
+        }
+    }
+}
+
+// The set of the 3 character sequences of a text, ignoring case, punctuation and spacing
+function trigrams(text: string): Set<string> {
+    const normalized = text
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim()
+
+    const result = new Set<string>()
+    for (let i = 0; i + 3 <= normalized.length; i++) {
+        result.add(normalized.slice(i, i + 3))
+    }
+
+    return result
+}
+
+// How similar two texts are, from 0 (nothing in common) to 1 (the same text)
+export function textSimilarity(a: string, b: string): number {
+    const trigramsA = trigrams(a)
+    const trigramsB = trigrams(b)
+    if (trigramsA.size === 0 || trigramsB.size === 0) return 0
+
+    let shared = 0
+    for (const trigram of trigramsA) {
+        if (trigramsB.has(trigram)) shared += 1
+    }
+
+    return shared / (trigramsA.size + trigramsB.size - shared)
+}
+
+// The text is (almost) the same as one of the latest reviews of the business
+export function nearDuplicateTextSignal(
+    options = { similarity: 0.8, lookback: 100 }
+): FakeSignal {
+    return async (submission, db) => {
+        const previous = await findReviews(
+            db,
+            { business_id: submission.business_id },
+            options.lookback
+        )
+        if (previous instanceof Error) return previous
+
+        const duplicate = previous.find(
+            (review) =>
+                textSimilarity(review.text, submission.text) >=
+                options.similarity
+        )
+        if (duplicate === undefined) return undefined
+
+        return {
+            score: 0.5,
+            reason: `The text is almost the same as the one of review ${duplicate.id}`,
+        }
+    }
+}
+
+// Too many reviews with the same rating arrived to the business in a short time
+export function ratingBurstSignal(
+    options = { windowMs: 10 * 60 * 1000, maxReviews: 5 }
+): FakeSignal {
+    return async (submission, db) => {
+        const since = new Date(
+            submission.creation_date.getTime() - options.windowMs
+        )
+        const recent = await findReviews(
+            db,
+            { business_id: submission.business_id, since },
+            options.maxReviews * 4
+        )
+        if (recent instanceof Error) return recent
+
+        const sameRating = recent.filter(
+            (review) => review.rating === submission.rating
+        )
+        if (sameRating.length < options.maxReviews) return undefined
+
+        return {
+            score: 0.3,
+            reason: `${sameRating.length} reviews of ${submission.rating} stars were posted in a short time`,
+        }
+    }
+}
+
+// The same client ip posted reviews under many usernames
+export function sharedIpSignal(
+    options = { windowMs: 24 * 60 * 60 * 1000, maxUsernames: 3 }
+): FakeSignal {
+    return async (submission, db) => {
+        if (submission.client_ip === undefined) return undefined
+
+        const since = new Date(
+            submission.creation_date.getTime() - options.windowMs
+        )
+        const recent = await findReviews(
+            db,
+            { client_ip: submission.client_ip, since },
+            100
+        )
+        if (recent instanceof Error) return recent
+
+        const usernames = new Set(recent.map((review) => review.username))
+        usernames.add(submission.username)
+        if (usernames.size <= options.maxUsernames) return undefined
+
+        return {
+            score: 0.6,
+            reason: `The same client posted reviews as ${usernames.size} different users`,
+        }
+    }
+}
+
+export function createDefaultFakeDetector(
+    db: core.BusinessRepository
+): FakeDetector {
+    return createFakeDetector(db, [
+        repeatedUsernameSignal(),
+        nearDuplicateTextSignal(),
+        ratingBurstSignal(),
+        sharedIpSignal(),
+    ])
+}
@@ -1,35 +1,163 @@
 import * as core from './core'
+import { assertNever } from './utils'
+
+// Tells the order of two reviews inside a listing. Negative means that "a" goes before "b".
+function compareReviews(
+    sort: core.ReviewSort,
+    a: core.ReviewCursor,
+    b: core.ReviewCursor
+): number {
+    if (sort === 'newest') return b.seq - a.seq
+    if (sort === 'oldest') return a.seq - b.seq
+    if (sort === 'highest') return b.rating - a.rating || b.seq - a.seq
+    if (sort === 'lowest') return a.rating - b.rating || b.seq - a.seq
+
+    assertNever(sort)
+}
+
+function compareKeys(a: number | string, b: number | string): number {
+    if (typeof a === 'number' && typeof b === 'number') return a - b
+
+    const lowerA = a.toString().toLowerCase()
+    const lowerB = b.toString().toLowerCase()
+    if (lowerA === lowerB) return 0
+    return lowerA < lowerB ? -1 : 1
+}
+
+// Same as compareReviews, but for business listings. Ties are always broken by the id.
+function compareBusinesses(
+    sort: core.BusinessSort,
+    a: core.BusinessCursor,
+    b: core.BusinessCursor
+): number {
+    const byId = compareKeys(a.id, b.id)
+    if (sort === 'name') return compareKeys(a.value, b.value) || byId
+    if (sort === 'rating' || sort === 'reviews') {
+        return compareKeys(b.value, a.value) || byId
+    }
+
+    assertNever(sort)
+}
+
+function businessCursor(
+    sort: core.BusinessSort,
+    business: core.Business
+): core.BusinessCursor {
+    const { id, name, avg_rating, total_reviews } = business.value
+    if (sort === 'name') return { value: name, id }
+    if (sort === 'rating') return { value: avg_rating, id }
+    if (sort === 'reviews') return { value: total_reviews, id }
+
+    assertNever(sort)
+}
+
+// The stored businesses are never handed out, otherwise the callers could modify them
+function copyBusiness(business: core.Business): core.Business {
+    const copied = {
+        rating_histogram: { ...business.value.rating_histogram },
+        latest_reviews: [...business.value.latest_reviews],
+    }
+
+    if (business.type === 'online') {
+        return { type: 'online', value: { ...business.value, ...copied } }
+    }
+    if (business.type === 'physical') {
+        return { type: 'physical', value: { ...business.value, ...copied } }
+    }
+
+    assertNever(business)
+}
 
 export function createInMemDb(): core.BusinessRepository {
     const businesses: core.Business[] = []
+    const aggregates = new Map<core.BusinessId, core.ReviewAggregates>()
     let businessIdCounter = 0
 
-    const reviews: core.Review[] = []
+    // The seq is kept along with the review, since reviews can be removed from the array.
+    // "reported" tells whether the review is in the "reported" moderation queue.
+    const reviews: {
+        seq: number
+        review: core.Review
+        client_ip?: string
+        reports: core.ReviewReport[]
+        reported: boolean
+    }[] = []
+    let reviewSeqCounter = 0
+
+    // Finds a business that is about to be written, checking its version when required
+    function findForWrite(id: core.BusinessId, expectedVersion?: number) {
+        const index = businesses.findIndex((b) => b.value.id === id)
+        const business = businesses[index]
+        if (!business) return { type: 'record_not_found' } as const
+        if (
+            expectedVersion !== undefined &&
+            business.value.version !== expectedVersion
+        ) {
+            return { type: 'version_mismatch' } as const
+        }
+
+        return { type: 'found', business, index } as const
+    }
+
+    // Writes the new aggregates, and everything derived out of them, into the business
+    function applyAggregates(
+        business: core.Business,
+        updated: core.ReviewAggregates
+    ) {
+        aggregates.set(business.value.id, updated)
+
+        business.value.total_reviews = updated.total_reviews
+        business.value.avg_rating = core.averageRating(updated)
+        business.value.rating_histogram = updated.rating_histogram
+        business.value.latest_reviews = reviews
+            .filter(({ review }) => review.business_id === business.value.id)
+            .filter(({ review }) => review.status === 'approved')
+            .sort((a, b) => b.seq - a.seq)
+            .slice(0, 3)
+            .map(({ review }) => review)
+        business.value.version += 1
+    }
+
+    function findReview(businessId: core.BusinessId, reviewId: core.ReviewId) {
+        return reviews.findIndex(
+            ({ review }) =>
+                review.id === reviewId && review.business_id === businessId
+        )
+    }
 
     return {
+        async ping(): core.RepositoryPingResult {
+            return { type: 'success' }
+        },
+
         async createOnlineBusiness(
             data: core.CreateOnlineBusinessData
         ): core.RepositoryEditResult<core.OnlineBusiness> {
             businessIdCounter += 1
+            const empty = core.emptyAggregates()
 
             const business: core.OnlineBusiness = {
                 id: businessIdCounter.toString(),
                 name: data.name,
                 website: data.website,
                 email: data.email,
-                total_reviews: 0,
-                avg_rating: 0,
+                total_reviews: empty.total_reviews,
+                avg_rating: core.averageRating(empty),
+                rating_histogram: empty.rating_histogram,
                 latest_reviews: [],
+                version: 1,
             }
+            aggregates.set(business.id, empty)
             businesses.push({ type: 'online', value: business })
 
-            return { type: 'success', value: business }
+            return { type: 'success', value: { ...business } }
         },
 
         async createPhysicalBusiness(
             data: core.CreatePhysicalBusinessData
         ): core.RepositoryEditResult<core.PhysicalBusiness> {
             businessIdCounter += 1
+            const empty = core.emptyAggregates()
 
             const business: core.PhysicalBusiness = {
                 id: businessIdCounter.toString(),
@@ -37,13 +165,16 @@ export function createInMemDb(): core.BusinessRepository {
                 address: data.address,
                 phone: data.phone,
                 email: data.email,
-                total_reviews: 0,
-                avg_rating: 0,
+                total_reviews: empty.total_reviews,
+                avg_rating: core.averageRating(empty),
+                rating_histogram: empty.rating_histogram,
                 latest_reviews: [],
+                version: 1,
             }
+            aggregates.set(business.id, empty)
             businesses.push({ type: 'physical', value: business })
 
-            return { type: 'success', value: business }
+            return { type: 'success', value: { ...business } }
         },
 
         async getBusiness(
@@ -52,64 +183,560 @@ export function createInMemDb(): core.BusinessRepository {
             const inMemBusiness = businesses.find((b) => b.value.id === id)
             if (!inMemBusiness) return { type: 'record_not_found' }
 
-            // sort inMemBusiness.latest_reviews by date
-            let sorted = inMemBusiness.value.latest_reviews.sort(
-                (prev, next) => {
-                    const prevTime = prev.creation_date.getTime()
-                    const nextTime = next.creation_date.getTime()
-                    return nextTime - prevTime
+            return { type: 'success', value: copyBusiness(inMemBusiness) }
+        },
+
+        async listBusinesses(
+            query: core.ListBusinessesQuery
+        ): core.RepositoryListResult<core.BusinessesPage> {
+            const { sort, after } = query
+            const namePrefix = query.name_prefix?.toLowerCase()
+            const nameContains = query.name_contains?.toLowerCase()
+
+            const candidates = businesses
+                .filter(
+                    (b) => query.type === undefined || b.type === query.type
+                )
+                .filter(
+                    (b) =>
+                        query.min_avg_rating === undefined ||
+                        b.value.avg_rating >= query.min_avg_rating
+                )
+                .filter(
+                    (b) =>
+                        query.min_total_reviews === undefined ||
+                        b.value.total_reviews >= query.min_total_reviews
+                )
+                .filter(
+                    (b) =>
+                        namePrefix === undefined ||
+                        b.value.name.toLowerCase().startsWith(namePrefix)
+                )
+                .filter(
+                    (b) =>
+                        nameContains === undefined ||
+                        b.value.name.toLowerCase().includes(nameContains)
+                )
+                .map((business) => ({
+                    business,
+                    cursor: businessCursor(sort, business),
+                }))
+                .filter(
+                    ({ cursor }) =>
+                        after === undefined ||
+                        compareBusinesses(sort, cursor, after) > 0
+                )
+                .sort((a, b) => compareBusinesses(sort, a.cursor, b.cursor))
+
+            const page = candidates.slice(0, query.limit)
+            const last = page[page.length - 1]
+
+            let next: core.BusinessCursor | null = null
+            if (candidates.length > query.limit && last) {
+                next = last.cursor
+            }
+
+            return {
+                type: 'success',
+                value: {
+                    businesses: page.map((entry) =>
+                        copyBusiness(entry.business)
+                    ),
+                    next,
+                },
+            }
+        },
+
+        async updateBusiness(
+            id: core.BusinessId,
+            data: core.UpdateBusinessData,
+            expectedVersion?: number
+        ): core.RepositoryWriteResult<core.Business> {
+            const found = findForWrite(id, expectedVersion)
+            if (found.type !== 'found') return found
+
+            const { business } = found
+
+            if (data.name !== undefined) business.value.name = data.name
+            if (data.email !== undefined) business.value.email = data.email
+            if (business.type === 'online') {
+                if (data.website !== undefined) {
+                    business.value.website = data.website
                 }
-            )
+            } else if (business.type === 'physical') {
+                if (data.address !== undefined) {
+                    business.value.address = data.address
+                }
+                if (data.phone !== undefined) business.value.phone = data.phone
+            } else {
+                assertNever(business)
+            }
+            business.value.version += 1
+
+            return { type: 'success', value: copyBusiness(business) }
+        },
+
+        async deleteBusiness(
+            id: core.BusinessId,
+            expectedVersion?: number
+        ): core.RepositoryWriteResult<core.Business> {
+            const found = findForWrite(id, expectedVersion)
+            if (found.type !== 'found') return found
 
-            // get the latest 3
-            sorted = sorted.slice(0, 3)
+            const { business, index } = found
+            businesses.splice(index, 1)
+            aggregates.delete(id)
 
-            const business = {
-                ...inMemBusiness,
-                latest_reviews: sorted,
+            for (let i = reviews.length - 1; i >= 0; i--) {
+                if (reviews[i]?.review.business_id === id) reviews.splice(i, 1)
             }
 
             return { type: 'success', value: business }
         },
+
         async createReview(
             businessId: core.BusinessId,
             data: core.CreateReviewData
-        ): core.RepositoryEditResult<core.Review> {
+        ): core.RepositoryFetchResult<core.Review> {
             const business = businesses.find((b) => b.value.id === businessId)
-            if (!business) {
-                return {
-                    type: 'database_error',
-                    error: new Error('Business not found'),
-                }
-            }
+            if (!business) return { type: 'record_not_found' }
 
+            reviewSeqCounter += 1
             const newReview: core.Review = {
+                id: reviewSeqCounter.toString(),
                 business_id: businessId,
                 username: data.username,
                 rating: data.rating,
                 text: data.text,
                 creation_date: new Date(),
+                status: data.detection?.flagged ? 'pending' : 'approved',
+                moderation_reason: null,
+                fake_score: data.detection?.score ?? 0,
+                fake_reasons: data.detection?.reasons ?? [],
+                reply: null,
+            }
+            reviews.push({
+                seq: reviewSeqCounter,
+                review: newReview,
+                client_ip: data.client_ip,
+                reports: [],
+                reported: false,
+            })
+            if (newReview.status !== 'approved') {
+                return { type: 'success', value: newReview }
             }
-            reviews.push(newReview)
 
-            business.value.total_reviews += 1
-            business.value.latest_reviews.push(newReview)
+            applyAggregates(
+                business,
+                core.addRating(
+                    aggregates.get(businessId) ?? core.emptyAggregates(),
+                    newReview.rating
+                )
+            )
+
+            return { type: 'success', value: newReview }
+        },
+
+        async getReview(
+            businessId: core.BusinessId,
+            reviewId: core.ReviewId
+        ): core.RepositoryFetchResult<core.Review> {
+            const stored = reviews[findReview(businessId, reviewId)]
+            if (!stored) return { type: 'record_not_found' }
+
+            return { type: 'success', value: stored.review }
+        },
+
+        async updateReview(
+            businessId: core.BusinessId,
+            reviewId: core.ReviewId,
+            data: core.UpdateReviewData
+        ): core.RepositoryFetchResult<core.Review> {
+            const business = businesses.find((b) => b.value.id === businessId)
+            const stored = reviews[findReview(businessId, reviewId)]
+            if (!business || !stored) return { type: 'record_not_found' }
+
+            // A new object, since the old one may have been handed out already
+            const old = stored.review
+            stored.review = {
+                ...old,
+                text: data.text ?? old.text,
+                rating: data.rating ?? old.rating,
+            }
+            if (old.status !== 'approved') {
+                return { type: 'success', value: stored.review }
+            }
 
-            const ratingsSum = business.value.latest_reviews.reduce(
-                (prev, curr) => prev + curr.rating,
-                0
+            const current = aggregates.get(businessId) ?? core.emptyAggregates()
+            applyAggregates(
+                business,
+                core.addRating(
+                    core.removeRating(current, old.rating),
+                    stored.review.rating
+                )
             )
 
-            const totalReviews = business.value.latest_reviews.length
-            let avg_rating = 0
-            if (totalReviews !== 0) {
-                avg_rating = ratingsSum / totalReviews
-                avg_rating = Math.floor(avg_rating * 10) / 10
+            return { type: 'success', value: stored.review }
+        },
+
+        async deleteReview(
+            businessId: core.BusinessId,
+            reviewId: core.ReviewId
+        ): core.RepositoryFetchResult<core.Review> {
+            const business = businesses.find((b) => b.value.id === businessId)
+            const index = findReview(businessId, reviewId)
+            const stored = reviews[index]
+            if (!business || !stored) return { type: 'record_not_found' }
+
+            reviews.splice(index, 1)
+            if (stored.review.status !== 'approved') {
+                return { type: 'success', value: stored.review }
             }
 
-            business.value.avg_rating = avg_rating
+            const current = aggregates.get(businessId) ?? core.emptyAggregates()
+            applyAggregates(
+                business,
+                core.removeRating(current, stored.review.rating)
+            )
 
-            return { type: 'success', value: newReview }
+            return { type: 'success', value: stored.review }
+        },
+
+        async reportReview(
+            businessId: core.BusinessId,
+            reviewId: core.ReviewId,
+            reason: string
+        ): core.RepositoryFetchResult<core.Review> {
+            const stored = reviews[findReview(businessId, reviewId)]
+            if (!stored) return { type: 'record_not_found' }
+
+            stored.reports.push({ reason, creation_date: new Date() })
+            stored.reported = true
+
+            return { type: 'success', value: stored.review }
+        },
+
+        async moderateReview(
+            businessId: core.BusinessId,
+            reviewId: core.ReviewId,
+            decision: core.ModerationDecision
+        ): core.RepositoryFetchResult<core.Review> {
+            const business = businesses.find((b) => b.value.id === businessId)
+            const stored = reviews[findReview(businessId, reviewId)]
+            if (!business || !stored) return { type: 'record_not_found' }
+
+            const old = stored.review
+            stored.review = {
+                ...old,
+                status: decision.status,
+                moderation_reason: decision.reason,
+            }
+            stored.reported = false
+
+            let updated = aggregates.get(businessId) ?? core.emptyAggregates()
+            if (old.status === 'approved') {
+                updated = core.removeRating(updated, old.rating)
+            }
+            if (stored.review.status === 'approved') {
+                updated = core.addRating(updated, stored.review.rating)
+            }
+
+            // Approving an approved review changes no aggregate, but its copy in the latest
+            // reviews still has to get the new reason
+            if (
+                old.status === 'approved' ||
+                stored.review.status === 'approved'
+            ) {
+                applyAggregates(business, updated)
+            }
+
+            return { type: 'success', value: stored.review }
+        },
+
+        async replyToReview(
+            businessId: core.BusinessId,
+            reviewId: core.ReviewId,
+            text: string | null,
+            options: { mode: core.ReplyMode }
+        ): core.RepositoryReplyResult {
+            const business = businesses.find((b) => b.value.id === businessId)
+            const stored = reviews[findReview(businessId, reviewId)]
+            if (!business || !stored) return { type: 'record_not_found' }
+
+            const old = stored.review
+            if (options.mode === 'create' && old.reply !== null) {
+                return { type: 'reply_exists' }
+            }
+            if (options.mode === 'update' && old.reply === null) {
+                return { type: 'reply_not_found' }
+            }
+
+            const now = new Date()
+            stored.review = {
+                ...old,
+                reply:
+                    text === null
+                        ? null
+                        : {
+                              text,
+                              creation_date: old.reply?.creation_date ?? now,
+                              update_date: now,
+                          },
+            }
+
+            // The aggregates stay the same, but the copy in the latest reviews has to change
+            if (old.status === 'approved') {
+                applyAggregates(
+                    business,
+                    aggregates.get(businessId) ?? core.emptyAggregates()
+                )
+            }
+
+            return { type: 'success', value: stored.review }
+        },
+
+        async listModerationQueue(
+            queue: core.ModerationQueue,
+            limit: number
+        ): core.RepositoryListResult<core.ModerationQueueItem[]> {
+            const found = reviews
+                .filter((stored) => {
+                    if (queue === 'pending') {
+                        return stored.review.status === 'pending'
+                    }
+                    if (queue === 'reported') return stored.reported
+
+                    assertNever(queue)
+                })
+                .sort((a, b) => a.seq - b.seq)
+                .slice(0, limit)
+                .map(({ review, reports }) => ({
+                    review,
+                    reports: [...reports],
+                }))
+
+            return { type: 'success', value: found }
+        },
+
+        async findReviews(
+            filter: core.ReviewFilter,
+            limit: number
+        ): core.RepositoryListResult<core.Review[]> {
+            const { business_id, username, client_ip, since } = filter
+            const found = reviews
+                .filter(
+                    ({ review }) =>
+                        business_id === undefined ||
+                        review.business_id === business_id
+                )
+                .filter(
+                    ({ review }) =>
+                        username === undefined || review.username === username
+                )
+                .filter(
+                    (stored) =>
+                        client_ip === undefined ||
+                        stored.client_ip === client_ip
+                )
+                .filter(
+                    ({ review }) =>
+                        since === undefined ||
+                        review.creation_date.getTime() >= since.getTime()
+                )
+                .sort((a, b) => b.seq - a.seq)
+                .slice(0, limit)
+                .map(({ review }) => review)
+
+            return { type: 'success', value: found }
+        },
+
+        async listReviews(
+            businessId: core.BusinessId,
+            query: core.ListReviewsQuery
+        ): core.RepositoryFetchResult<core.ReviewsPage> {
+            const business = businesses.find((b) => b.value.id === businessId)
+            if (!business) return { type: 'record_not_found' }
+
+            const { sort, after } = query
+            const candidates = reviews
+                .map(({ review, seq }) => ({
+                    review,
+                    seq,
+                    rating: review.rating,
+                }))
+                .filter(({ review }) => review.business_id === businessId)
+                .filter(({ review }) => review.status === 'approved')
+                .filter(
+                    ({ rating }) =>
+                        query.rating === undefined || rating === query.rating
+                )
+                .filter(
+                    (entry) =>
+                        after === undefined ||
+                        compareReviews(sort, entry, after) > 0
+                )
+                .sort((a, b) => compareReviews(sort, a, b))
+
+            const page = candidates.slice(0, query.limit)
+            const last = page[page.length - 1]
+
+            let next: core.ReviewCursor | null = null
+            if (candidates.length > query.limit && last) {
+                next = { rating: last.rating, seq: last.seq }
+            }
+
+            return {
+                type: 'success',
+                value: { reviews: page.map((entry) => entry.review), next },
+            }
+        },
+    }
+}
+
+export function createInMemApiKeyStore(): core.ApiKeyRepository {
+    let apiKeyIdCounter = 0
+    const apiKeys: core.ApiKey[] = []
+
+    return {
+        async createApiKey(
+            data: core.CreateApiKeyData
+        ): core.RepositoryEditResult<core.ApiKey> {
+            apiKeyIdCounter += 1
+            const apiKey: core.ApiKey = {
+                id: apiKeyIdCounter.toString(),
+                name: data.name,
+                key_hash: data.key_hash,
+                scopes: [...data.scopes],
+                creation_date: new Date(),
+                revoked_date: null,
+            }
+            apiKeys.push(apiKey)
+
+            return { type: 'success', value: { ...apiKey } }
+        },
+
+        async findApiKeyByHash(
+            keyHash: string
+        ): core.RepositoryFetchResult<core.ApiKey> {
+            const apiKey = apiKeys.find(
+                (apiKey) =>
+                    apiKey.key_hash === keyHash && apiKey.revoked_date === null
+            )
+            if (!apiKey) return { type: 'record_not_found' }
+
+            return { type: 'success', value: { ...apiKey } }
+        },
+
+        async listApiKeys(): core.RepositoryListResult<core.ApiKey[]> {
+            return {
+                type: 'success',
+                value: [...apiKeys].reverse().map((apiKey) => ({ ...apiKey })),
+            }
+        },
+
+        async revokeApiKey(
+            id: core.ApiKeyId
+        ): core.RepositoryFetchResult<core.ApiKey> {
+            const apiKey = apiKeys.find((apiKey) => apiKey.id === id)
+            if (!apiKey) return { type: 'record_not_found' }
+
+            apiKey.revoked_date ??= new Date()
+            return { type: 'success', value: { ...apiKey } }
+        },
+    }
+}
+
+export function createInMemRateLimitStore(): core.RateLimitRepository {
+    type Entry = { bucket: core.RateLimitBucket; limit: core.RateLimit }
+    const buckets = new Map<string, Entry>()
+    // Full buckets are the same as missing ones, so they are dropped from time to time. Otherwise
+    // every client ever seen would stay in memory.
+    const sweepEvery = 1000
+    let takesSinceSweep = 0
+
+    function sweep(now: Date) {
+        for (const [key, { bucket, limit }] of buckets) {
+            if (core.refilledTokens(bucket, limit, now) >= limit.capacity) {
+                buckets.delete(key)
+            }
+        }
+    }
+
+    return {
+        async takeToken(
+            key: string,
+            limit: core.RateLimit,
+            now: Date
+        ): core.RepositoryEditResult<core.RateLimitTake> {
+            takesSinceSweep += 1
+            if (takesSinceSweep >= sweepEvery) {
+                takesSinceSweep = 0
+                sweep(now)
+            }
+
+            const { bucket, take } = core.takeRateLimitToken(
+                buckets.get(key)?.bucket,
+                limit,
+                now
+            )
+            buckets.set(key, { bucket, limit })
+
+            return { type: 'success', value: take }
+        },
+    }
+}
+
+export function createInMemIdempotencyStore(): core.IdempotencyRepository {
+    const records = new Map<string, core.IdempotencyRecord>()
+    // Expired records are dropped from time to time, like in createInMemRateLimitStore
+    const sweepEvery = 1000
+    let claimsSinceSweep = 0
+
+    function sweep(now: Date) {
+        for (const [key, record] of records) {
+            if (record.expires_at <= now) records.delete(key)
+        }
+    }
+
+    return {
+        async claimIdempotencyKey(
+            record: core.IdempotencyRecord,
+            now: Date
+        ): core.RepositoryEditResult<core.IdempotencyClaim> {
+            claimsSinceSweep += 1
+            if (claimsSinceSweep >= sweepEvery) {
+                claimsSinceSweep = 0
+                sweep(now)
+            }
+
+            const existing = records.get(record.key)
+            if (existing !== undefined && existing.expires_at > now) {
+                return {
+                    type: 'success',
+                    value: { type: 'existing', record: { ...existing } },
+                }
+            }
+
+            records.set(record.key, { ...record })
+            return { type: 'success', value: { type: 'claimed' } }
+        },
+
+        async saveIdempotentResponse(
+            key: string,
+            response: core.StoredResponse,
+            expiresAt: Date
+        ): core.RepositoryVoidResult {
+            const record = records.get(key)
+            if (record !== undefined) {
+                records.set(key, { ...record, response, expires_at: expiresAt })
+            }
+
+            return { type: 'success' }
+        },
+
+        async releaseIdempotencyKey(key: string): core.RepositoryVoidResult {
+            records.delete(key)
+            return { type: 'success' }
         },
     }
 }
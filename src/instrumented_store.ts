@@ -0,0 +1,72 @@
+import * as core from './core'
+import { MetricsRegistry } from './metrics'
+
+// Wraps a repository so the duration of every call, and whether it failed, end up in the metrics.
+// The wrapped repository is used as it is otherwise.
+export function createInstrumentedStore(
+    db: core.BusinessRepository,
+    metrics: MetricsRegistry
+): core.BusinessRepository {
+    const durations = metrics.histogram(
+        'repository_call_duration_seconds',
+        'Duration of the repository calls, by method'
+    )
+    const errors = metrics.counter(
+        'repository_errors_total',
+        'Repository calls that failed with a database error, by method'
+    )
+
+    function instrument<
+        Args extends unknown[],
+        Result extends { type: string }
+    >(
+        method: string,
+        call: (...args: Args) => Promise<Result>
+    ): (...args: Args) => Promise<Result> {
+        return async (...args) => {
+            const start = performance.now()
+            try {
+                const result = await call(...args)
+                if (result.type === 'database_error') errors.inc({ method })
+                return result
+            } catch (err) {
+                errors.inc({ method })
+                throw err
+            } finally {
+                durations.observe(
+                    { method },
+                    (performance.now() - start) / 1000
+                )
+            }
+        }
+    }
+
+    return {
+        ping: instrument('ping', db.ping),
+        createOnlineBusiness: instrument(
+            'createOnlineBusiness',
+            db.createOnlineBusiness
+        ),
+        createPhysicalBusiness: instrument(
+            'createPhysicalBusiness',
+            db.createPhysicalBusiness
+        ),
+        getBusiness: instrument('getBusiness', db.getBusiness),
+        listBusinesses: instrument('listBusinesses', db.listBusinesses),
+        updateBusiness: instrument('updateBusiness', db.updateBusiness),
+        deleteBusiness: instrument('deleteBusiness', db.deleteBusiness),
+        createReview: instrument('createReview', db.createReview),
+        getReview: instrument('getReview', db.getReview),
+        updateReview: instrument('updateReview', db.updateReview),
+        deleteReview: instrument('deleteReview', db.deleteReview),
+        reportReview: instrument('reportReview', db.reportReview),
+        moderateReview: instrument('moderateReview', db.moderateReview),
+        listModerationQueue: instrument(
+            'listModerationQueue',
+            db.listModerationQueue
+        ),
+        replyToReview: instrument('replyToReview', db.replyToReview),
+        findReviews: instrument('findReviews', db.findReviews),
+        listReviews: instrument('listReviews', db.listReviews),
+    }
+}
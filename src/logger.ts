@@ -0,0 +1,56 @@
+import * as core from './core'
+
+const levelOrder: core.LogLevels[] = ['debug', 'info', 'warn', 'error']
+
+export type LoggerOptions = {
+    // messages below it are dropped
+    level: core.LogLevels
+    // where every line goes, stdout by default
+    write?: (line: string) => void
+    // added to every message
+    fields?: core.LogFields
+}
+
+// JSON.stringify turns errors into {}, so they are logged field by field instead
+function toJsonValue(_key: string, value: unknown): unknown {
+    if (value instanceof Error) {
+        return { name: value.name, message: value.message, stack: value.stack }
+    }
+
+    return value
+}
+
+// Creates a logger that writes a json object per line, like the following:
+// {"time":"2023-03-20T10:00:00.000Z","level":"info","msg":"Created review","request_id":"..."}
+export function createLogger(options: LoggerOptions): core.Logger {
+    const minLevel = levelOrder.indexOf(options.level)
+    const write =
+        options.write ?? ((line: string) => process.stdout.write(`${line}\n`))
+
+    const createChild = (bound: core.LogFields): core.Logger => {
+        const log =
+            (level: core.LogLevels) =>
+            (msg: string, fields: core.LogFields = {}) => {
+                if (levelOrder.indexOf(level) < minLevel) return
+
+                const line = {
+                    time: new Date().toISOString(),
+                    level,
+                    msg,
+                    ...bound,
+                    ...fields,
+                }
+                write(JSON.stringify(line, toJsonValue))
+            }
+
+        return {
+            debug: log('debug'),
+            info: log('info'),
+            warn: log('warn'),
+            error: log('error'),
+            child: (fields) => createChild({ ...bound, ...fields }),
+        }
+    }
+
+    return createChild(options.fields ?? {})
+}
@@ -0,0 +1,180 @@
+// A small registry of metrics, exposed in the Prometheus text format at GET /metrics. See
+// https://prometheus.io/docs/instrumenting/exposition_formats/
+
+// Like { route: '/business/:id', status: '200' }. Every metric must always get the same names.
+export type Labels = { [name: string]: string }
+
+export type Counter = {
+    inc: (labels?: Labels, value?: number) => void
+}
+
+export type Histogram = {
+    // the value is in seconds for durations, as Prometheus expects
+    observe: (labels: Labels, value: number) => void
+}
+
+export type MetricsRegistry = {
+    counter: (name: string, help: string) => Counter
+    histogram: (name: string, help: string, buckets?: number[]) => Histogram
+    // the text to answer GET /metrics with
+    render: () => string
+}
+
+// From 5ms to 10s, good enough for http requests and database calls
+export const defaultBuckets = [
+    0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+]
+
+type CounterMetric = {
+    type: 'counter'
+    name: string
+    help: string
+    series: Map<string, { labels: Labels; value: number }>
+}
+
+type HistogramMetric = {
+    type: 'histogram'
+    name: string
+    help: string
+    buckets: number[]
+    series: Map<
+        string,
+        // "counts" has a count per bucket, of the values that fell in it only
+        { labels: Labels; counts: number[]; sum: number; count: number }
+    >
+}
+
+type Metric = CounterMetric | HistogramMetric
+
+function escapeLabelValue(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, '\\n')
+}
+
+function formatLabels(labels: Labels): string {
+    const pairs = Object.entries(labels).map(
+        ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+    )
+    return pairs.length === 0 ? '' : `{${pairs.join(',')}}`
+}
+
+// The same labels in another order are the same series
+function seriesKey(labels: Labels): string {
+    return JSON.stringify(
+        Object.entries(labels).sort(([a], [b]) => a.localeCompare(b))
+    )
+}
+
+function renderMetric(metric: Metric): string[] {
+    const lines = [
+        `# HELP ${metric.name} ${metric.help}`,
+        `# TYPE ${metric.name} ${metric.type}`,
+    ]
+
+    if (metric.type === 'counter') {
+        for (const { labels, value } of metric.series.values()) {
+            lines.push(`${metric.name}${formatLabels(labels)} ${value}`)
+        }
+        return lines
+    }
+
+    for (const series of metric.series.values()) {
+        // the buckets are cumulative, each one counts the values up to its bound
+        let cumulative = 0
+        metric.buckets.forEach((bound, i) => {
+            cumulative += series.counts[i] ?? 0
+            lines.push(
+                `${metric.name}_bucket${formatLabels({
+                    ...series.labels,
+                    le: String(bound),
+                })} ${cumulative}`
+            )
+        })
+        lines.push(
+            `${metric.name}_bucket${formatLabels({
+                ...series.labels,
+                le: '+Inf',
+            })} ${series.count}`
+        )
+        lines.push(
+            `${metric.name}_sum${formatLabels(series.labels)} ${series.sum}`
+        )
+        lines.push(
+            `${metric.name}_count${formatLabels(series.labels)} ${series.count}`
+        )
+    }
+    return lines
+}
+
+export function createMetricsRegistry(): MetricsRegistry {
+    const metrics = new Map<string, Metric>()
+
+    const register = (metric: Metric) => {
+        if (metrics.has(metric.name)) {
+            throw new Error(`Metric ${metric.name} is already registered`)
+        }
+        metrics.set(metric.name, metric)
+    }
+
+    return {
+        counter(name, help) {
+            const metric: CounterMetric = {
+                type: 'counter',
+                name,
+                help,
+                series: new Map(),
+            }
+            register(metric)
+
+            return {
+                inc(labels = {}, value = 1) {
+                    const key = seriesKey(labels)
+                    const series = metric.series.get(key) ?? {
+                        labels,
+                        value: 0,
+                    }
+                    series.value += value
+                    metric.series.set(key, series)
+                },
+            }
+        },
+
+        histogram(name, help, buckets = defaultBuckets) {
+            const metric: HistogramMetric = {
+                type: 'histogram',
+                name,
+                help,
+                buckets,
+                series: new Map(),
+            }
+            register(metric)
+
+            return {
+                observe(labels, value) {
+                    const key = seriesKey(labels)
+                    const series = metric.series.get(key) ?? {
+                        labels,
+                        counts: buckets.map(() => 0),
+                        sum: 0,
+                        count: 0,
+                    }
+
+                    const bucket = buckets.findIndex((bound) => value <= bound)
+                    if (bucket !== -1) {
+                        series.counts[bucket] = (series.counts[bucket] ?? 0) + 1
+                    }
+                    series.sum += value
+                    series.count += 1
+                    metric.series.set(key, series)
+                },
+            }
+        },
+
+        render() {
+            const lines = [...metrics.values()].flatMap(renderMetric)
+            return `${lines.join('\n')}\n`
+        },
+    }
+}
@@ -0,0 +1,162 @@
+import http from 'http'
+
+import * as core from './core'
+
+// Shared by all the middlewares and the handler of a single request
+export type RequestContext = {
+    url: URL
+    // when the request arrived, in ms since the epoch
+    startTime: number
+    // sent back in the X-Request-Id header and in the error responses
+    requestId: string
+    // adds the request id to every message
+    log: core.Logger
+    // the pattern of the route that handles the request, once the router found it
+    route: string | undefined
+}
+
+export type RequestHandler = (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    ctx: RequestContext
+) => Promise<void>
+
+// A middleware runs the rest of the chain by calling "next". It can do things before and after
+// it, or not call it at all and answer the request itself.
+export type Middleware = (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    ctx: RequestContext,
+    next: () => Promise<void>
+) => Promise<void>
+
+// Chains the middlewares in order, the first one is the outermost. The handler goes last.
+export function composeMiddlewares(
+    middlewares: Middleware[],
+    handler: RequestHandler
+): RequestHandler {
+    return (req, res, ctx) => {
+        const run = async (index: number): Promise<void> => {
+            const middleware = middlewares[index]
+            if (middleware === undefined) return handler(req, res, ctx)
+
+            let called = false
+            await middleware(req, res, ctx, () => {
+                if (called) throw new Error('next() was called twice')
+                called = true
+                return run(index + 1)
+            })
+        }
+
+        return run(0)
+    }
+}
+
+export type CorsOptions = {
+    // "*" allows any origin
+    allowedOrigins: string[]
+    allowedMethods?: string[]
+    allowedHeaders?: string[]
+    // headers the browser lets the scripts read, besides the simple ones
+    exposedHeaders?: string[]
+    // how long browsers may cache the answer of a preflight request, in seconds
+    maxAge?: number
+}
+
+// Lets browsers on the allowed origins call the api. Preflight requests of allowed origins are
+// answered here, the rest go on as if there was no CORS at all.
+export function cors(options: CorsOptions): Middleware {
+    const allowedMethods = options.allowedMethods ?? [
+        'GET',
+        'HEAD',
+        'POST',
+        'PATCH',
+        'DELETE',
+    ]
+    const allowedHeaders = options.allowedHeaders ?? [
+        'Content-Type',
+        'If-Match',
+        'Authorization',
+        'X-Api-Key',
+        'X-Admin-Token',
+        'Idempotency-Key',
+    ]
+    const exposedHeaders = options.exposedHeaders ?? [
+        'ETag',
+        'Allow',
+        'Retry-After',
+        'RateLimit-Limit',
+        'RateLimit-Remaining',
+        'RateLimit-Reset',
+        'Idempotent-Replayed',
+    ]
+    const maxAge = options.maxAge ?? 600
+    const anyOrigin = options.allowedOrigins.includes('*')
+
+    return async (req, res, ctx, next) => {
+        // The answer depends on the origin, caches must not mix them up
+        res.setHeader('Vary', 'Origin')
+
+        const origin = req.headers.origin
+        if (
+            origin === undefined ||
+            !(anyOrigin || options.allowedOrigins.includes(origin))
+        ) {
+            await next()
+            return
+        }
+
+        res.setHeader('Access-Control-Allow-Origin', origin)
+
+        const isPreflight =
+            req.method === 'OPTIONS' &&
+            req.headers['access-control-request-method'] !== undefined
+        if (isPreflight) {
+            res.writeHead(204, {
+                'Access-Control-Allow-Methods': allowedMethods.join(', '),
+                'Access-Control-Allow-Headers': allowedHeaders.join(', '),
+                'Access-Control-Max-Age': maxAge.toString(),
+            })
+            res.end()
+            return
+        }
+
+        res.setHeader(
+            'Access-Control-Expose-Headers',
+            exposedHeaders.join(', ')
+        )
+        await next()
+    }
+}
+
+export type SecurityHeadersOptions = {
+    // Strict-Transport-Security, false leaves it out (like for plain http development setups)
+    hsts?: { maxAge: number; includeSubDomains: boolean } | false
+}
+
+// The headers that make browsers stricter with our responses. We only serve json, so nothing
+// should ever be sniffed, framed or leak the url through the referrer.
+export function securityHeaders(
+    options: SecurityHeadersOptions = {}
+): Middleware {
+    const hsts = options.hsts ?? {
+        maxAge: 365 * 24 * 60 * 60,
+        includeSubDomains: true,
+    }
+
+    return async (req, res, ctx, next) => {
+        res.setHeader('X-Content-Type-Options', 'nosniff')
+        res.setHeader('X-Frame-Options', 'DENY')
+        res.setHeader('Referrer-Policy', 'no-referrer')
+        if (hsts) {
+            res.setHeader(
+                'Strict-Transport-Security',
+                `max-age=${hsts.maxAge}${
+                    hsts.includeSubDomains ? '; includeSubDomains' : ''
+                }`
+            )
+        }
+
+        await next()
+    }
+}
@@ -0,0 +1,733 @@
+import { z } from 'zod'
+
+import * as core from './core'
+import { Method } from './router'
+import {
+    apiKeyResponseJson,
+    apiKeysResponseJson,
+    businessResponseJson,
+    businessesPageResponseJson,
+    createApiKeyJson,
+    createBusinessJson,
+    createTokenJson,
+    createdApiKeyResponseJson,
+    errorResponseJson,
+    healthResponseJson,
+    listBusinessesQuery,
+    listReviewsQuery,
+    moderateReviewJson,
+    moderatedReviewResponseJson,
+    moderationQueueQuery,
+    moderationQueueResponseJson,
+    patchBusinessJson,
+    patchReviewJson,
+    postReviewJson,
+    replyJson,
+    replyResponseJson,
+    reportReviewJson,
+    reviewResponseJson,
+    reviewsPageResponseJson,
+    tokenResponseJson,
+} from './schemas'
+
+type JsonSchema = { [keyword: string]: unknown }
+
+// The schemas that get a name in the document. Wherever they show up they are referenced by it.
+const components = new Map<z.ZodTypeAny, string>([
+    [businessResponseJson, 'Business'],
+    [businessesPageResponseJson, 'BusinessesPage'],
+    [reviewResponseJson, 'Review'],
+    [moderatedReviewResponseJson, 'ModeratedReview'],
+    [reviewsPageResponseJson, 'ReviewsPage'],
+    [replyResponseJson, 'Reply'],
+    [moderationQueueResponseJson, 'ModerationQueue'],
+    [apiKeyResponseJson, 'ApiKey'],
+    [errorResponseJson, 'Error'],
+])
+
+// Turns a zod schema into a JSON Schema (the 2020-12 draft, which OpenAPI 3.1 uses). It only knows
+// about the zod types our schemas use, anything else throws so it can't be silently left out.
+export function toJsonSchema(
+    schema: z.ZodTypeAny,
+    isComponent = false
+): JsonSchema {
+    const name = components.get(schema)
+    if (name !== undefined && !isComponent) {
+        return { $ref: `#/components/schemas/${name}` }
+    }
+
+    const converted = convertSchema(schema)
+    if (schema.description === undefined) return converted
+
+    return { ...converted, description: schema.description }
+}
+
+function convertSchema(schema: z.ZodTypeAny): JsonSchema {
+    if (schema instanceof z.ZodString) {
+        const result: JsonSchema = { type: 'string' }
+        for (const check of schema._def.checks) {
+            if (check.kind === 'min') result['minLength'] = check.value
+            else if (check.kind === 'max') result['maxLength'] = check.value
+            else if (check.kind === 'email') result['format'] = 'email'
+            else if (check.kind === 'datetime') result['format'] = 'date-time'
+            else throw new Error(`Unsupported string check ${check.kind}`)
+        }
+        return result
+    }
+
+    if (schema instanceof z.ZodNumber) {
+        const result: JsonSchema = { type: 'number' }
+        for (const check of schema._def.checks) {
+            if (check.kind === 'int') {
+                result['type'] = 'integer'
+            } else if (check.kind === 'min') {
+                result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] =
+                    check.value
+            } else if (check.kind === 'max') {
+                result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] =
+                    check.value
+            } else {
+                throw new Error(`Unsupported number check ${check.kind}`)
+            }
+        }
+        return result
+    }
+
+    if (schema instanceof z.ZodBoolean) return { type: 'boolean' }
+    if (schema instanceof z.ZodLiteral) return { const: schema.value }
+    if (schema instanceof z.ZodEnum) {
+        return { type: 'string', enum: schema.options }
+    }
+
+    if (schema instanceof z.ZodArray) {
+        return { type: 'array', items: toJsonSchema(schema.element) }
+    }
+
+    if (schema instanceof z.ZodObject) {
+        const properties: { [key: string]: JsonSchema } = {}
+        const required: string[] = []
+        for (const [key, field] of Object.entries<z.ZodTypeAny>(schema.shape)) {
+            properties[key] = toJsonSchema(field)
+            if (!field.isOptional()) required.push(key)
+        }
+
+        const result: JsonSchema = { type: 'object', properties }
+        if (required.length > 0) result['required'] = required
+        if (schema._def.unknownKeys === 'strict') {
+            result['additionalProperties'] = false
+        }
+        return result
+    }
+
+    if (
+        schema instanceof z.ZodUnion ||
+        schema instanceof z.ZodDiscriminatedUnion
+    ) {
+        const options: z.ZodTypeAny[] = [...schema.options]
+        return { oneOf: options.map((option) => toJsonSchema(option)) }
+    }
+
+    if (schema instanceof z.ZodNullable) {
+        return { oneOf: [toJsonSchema(schema.unwrap()), { type: 'null' }] }
+    }
+
+    // Whether the field is required is told by the object that has it
+    if (schema instanceof z.ZodOptional) return toJsonSchema(schema.unwrap())
+    if (schema instanceof z.ZodDefault) {
+        return {
+            ...toJsonSchema(schema.removeDefault()),
+            default: schema._def.defaultValue(),
+        }
+    }
+
+    throw new Error(`Unsupported zod type ${schema._def.typeName}`)
+}
+
+type ApiResponse = {
+    description: string
+    // no schema means no body, unless it's a text one
+    schema?: z.ZodTypeAny
+    text?: boolean
+    // the response sends the ETag of the business
+    etag?: boolean
+}
+
+// Everything the document tells about a route. Responses with an error status don't need a
+// schema, all of them send errorResponseJson.
+export type ApiOperation = {
+    operationId: string
+    method: Method
+    // in the format of the router, like /business/:id
+    path: string
+    summary: string
+    // the scope the requester needs, see authorize in server.ts
+    scope?: core.AuthScope
+    // the operation is rate limited, see rateLimit in server.ts
+    rateLimited?: boolean
+    // the operation takes the If-Match header
+    ifMatch?: boolean
+    // the operation takes the If-None-Match header
+    ifNoneMatch?: boolean
+    query?: z.AnyZodObject
+    body?: z.ZodTypeAny
+    responses: { [status: number]: ApiResponse }
+}
+
+const notFound = { description: 'The record does not exist' }
+const invalid = { description: 'The input is not valid' }
+const preconditionFailed = {
+    description: 'The business changed since the version of If-Match',
+}
+const invalidCursor = { description: 'The cursor is not valid' }
+
+export const apiOperations: ApiOperation[] = [
+    {
+        operationId: 'createBusiness',
+        method: 'POST',
+        path: '/business',
+        summary: 'Creates an online or a physical business',
+        scope: 'business:write',
+        body: createBusinessJson,
+        responses: {
+            201: {
+                description: 'The created business',
+                schema: businessResponseJson,
+                etag: true,
+            },
+            422: invalid,
+        },
+    },
+    {
+        operationId: 'listBusinesses',
+        method: 'GET',
+        path: '/business',
+        summary: 'Lists businesses, filtered and sorted',
+        query: listBusinessesQuery,
+        responses: {
+            200: {
+                description: 'A page of businesses',
+                schema: businessesPageResponseJson,
+            },
+            400: invalidCursor,
+            422: invalid,
+        },
+    },
+    {
+        operationId: 'getBusiness',
+        method: 'GET',
+        path: '/business/:id',
+        summary: 'Gets a business along with its latest reviews',
+        ifNoneMatch: true,
+        responses: {
+            200: {
+                description: 'The business',
+                schema: businessResponseJson,
+                etag: true,
+            },
+            304: {
+                description: 'The business still has the ETag of If-None-Match',
+                etag: true,
+            },
+            404: notFound,
+        },
+    },
+    {
+        operationId: 'updateBusiness',
+        method: 'PATCH',
+        path: '/business/:id',
+        summary: 'Updates the given fields of a business',
+        scope: 'business:write',
+        ifMatch: true,
+        body: patchBusinessJson,
+        responses: {
+            200: {
+                description: 'The updated business',
+                schema: businessResponseJson,
+                etag: true,
+            },
+            404: notFound,
+            412: preconditionFailed,
+            422: invalid,
+        },
+    },
+    {
+        operationId: 'deleteBusiness',
+        method: 'DELETE',
+        path: '/business/:id',
+        summary: 'Deletes a business and all its reviews',
+        scope: 'business:write',
+        ifMatch: true,
+        responses: {
+            204: { description: 'The business was deleted' },
+            404: notFound,
+            412: preconditionFailed,
+        },
+    },
+    {
+        operationId: 'listReviews',
+        method: 'GET',
+        path: '/business/:id/reviews',
+        summary: 'Lists the approved reviews of a business',
+        query: listReviewsQuery,
+        responses: {
+            200: {
+                description: 'A page of reviews',
+                schema: reviewsPageResponseJson,
+            },
+            400: invalidCursor,
+            404: notFound,
+            422: invalid,
+        },
+    },
+    {
+        operationId: 'createReview',
+        method: 'POST',
+        path: '/business/:id/reviews',
+        summary: 'Reviews a business',
+        scope: 'reviews:write',
+        body: postReviewJson,
+        rateLimited: true,
+        responses: {
+            201: {
+                description: 'The created review',
+                schema: reviewResponseJson,
+            },
+            404: notFound,
+            422: invalid,
+        },
+    },
+    {
+        operationId: 'updateReview',
+        method: 'PATCH',
+        path: '/business/:id/reviews/:reviewId',
+        summary: 'Edits the text or the rating of a review',
+        scope: 'reviews:write',
+        body: patchReviewJson,
+        responses: {
+            200: {
+                description: 'The edited review',
+                schema: reviewResponseJson,
+            },
+            404: notFound,
+            422: invalid,
+        },
+    },
+    {
+        operationId: 'deleteReview',
+        method: 'DELETE',
+        path: '/business/:id/reviews/:reviewId',
+        summary: 'Deletes a review',
+        scope: 'reviews:write',
+        responses: {
+            204: { description: 'The review was deleted' },
+            404: notFound,
+        },
+    },
+    {
+        operationId: 'reportReview',
+        method: 'POST',
+        path: '/business/:id/reviews/:reviewId/report',
+        summary: 'Reports a review to the moderators',
+        body: reportReviewJson,
+        rateLimited: true,
+        responses: {
+            204: { description: 'The report was received' },
+            404: notFound,
+            422: invalid,
+        },
+    },
+    {
+        operationId: 'createReply',
+        method: 'POST',
+        path: '/business/:id/reviews/:reviewId/reply',
+        summary: 'Replies to a review on behalf of the business',
+        scope: 'business:write',
+        body: replyJson,
+        responses: {
+            201: {
+                description: 'The replied review',
+                schema: reviewResponseJson,
+            },
+            404: notFound,
+            409: { description: 'The review already has a reply' },
+            422: invalid,
+        },
+    },
+    {
+        operationId: 'updateReply',
+        method: 'PATCH',
+        path: '/business/:id/reviews/:reviewId/reply',
+        summary: 'Edits the reply to a review',
+        scope: 'business:write',
+        body: replyJson,
+        responses: {
+            200: {
+                description: 'The replied review',
+                schema: reviewResponseJson,
+            },
+            404: notFound,
+            422: invalid,
+        },
+    },
+    {
+        operationId: 'deleteReply',
+        method: 'DELETE',
+        path: '/business/:id/reviews/:reviewId/reply',
+        summary: 'Deletes the reply to a review',
+        scope: 'business:write',
+        responses: {
+            204: { description: 'The reply was deleted' },
+            404: notFound,
+        },
+    },
+    {
+        operationId: 'listModerationQueue',
+        method: 'GET',
+        path: '/admin/reviews',
+        summary: 'Lists the reviews waiting for a moderator, oldest first',
+        scope: 'admin',
+        query: moderationQueueQuery,
+        responses: {
+            200: {
+                description: 'The reviews of the queue',
+                schema: moderationQueueResponseJson,
+            },
+            422: invalid,
+        },
+    },
+    {
+        operationId: 'approveReview',
+        method: 'POST',
+        path: '/admin/business/:id/reviews/:reviewId/approve',
+        summary: 'Approves a review, which then counts for its business',
+        scope: 'admin',
+        body: moderateReviewJson,
+        responses: {
+            200: {
+                description: 'The approved review',
+                schema: moderatedReviewResponseJson,
+            },
+            404: notFound,
+            422: invalid,
+        },
+    },
+    {
+        operationId: 'rejectReview',
+        method: 'POST',
+        path: '/admin/business/:id/reviews/:reviewId/reject',
+        summary: 'Rejects a review, which then stops counting for its business',
+        scope: 'admin',
+        body: moderateReviewJson,
+        responses: {
+            200: {
+                description: 'The rejected review',
+                schema: moderatedReviewResponseJson,
+            },
+            404: notFound,
+            422: invalid,
+        },
+    },
+    {
+        operationId: 'createApiKey',
+        method: 'POST',
+        path: '/admin/api-keys',
+        summary: 'Creates an API key for a service client',
+        scope: 'admin',
+        body: createApiKeyJson,
+        responses: {
+            201: {
+                description: 'The created key, the only time it is sent',
+                schema: createdApiKeyResponseJson,
+            },
+            422: invalid,
+        },
+    },
+    {
+        operationId: 'listApiKeys',
+        method: 'GET',
+        path: '/admin/api-keys',
+        summary: 'Lists the API keys, newest first',
+        scope: 'admin',
+        responses: {
+            200: {
+                description: 'The API keys, without the keys themselves',
+                schema: apiKeysResponseJson,
+            },
+        },
+    },
+    {
+        operationId: 'revokeApiKey',
+        method: 'DELETE',
+        path: '/admin/api-keys/:id',
+        summary: 'Revokes an API key',
+        scope: 'admin',
+        responses: {
+            204: { description: 'The key was revoked' },
+            404: notFound,
+        },
+    },
+    {
+        operationId: 'createToken',
+        method: 'POST',
+        path: '/admin/tokens',
+        summary: 'Creates a bearer token for an end user',
+        scope: 'admin',
+        body: createTokenJson,
+        responses: {
+            201: {
+                description: 'The signed token',
+                schema: tokenResponseJson,
+            },
+            422: invalid,
+            503: { description: 'Bearer tokens are not enabled' },
+        },
+    },
+    {
+        operationId: 'getHealth',
+        method: 'GET',
+        path: '/healthz',
+        summary: 'Tells whether the server is alive',
+        responses: {
+            200: {
+                description: 'The server is alive',
+                schema: healthResponseJson,
+            },
+        },
+    },
+    {
+        operationId: 'getReadiness',
+        method: 'GET',
+        path: '/readyz',
+        summary:
+            'Tells whether the server can take requests, its database included',
+        responses: {
+            200: {
+                description: 'The server is ready',
+                schema: healthResponseJson,
+            },
+            503: {
+                description: 'The server is not ready, the details tell why',
+            },
+        },
+    },
+    {
+        operationId: 'getMetrics',
+        method: 'GET',
+        path: '/metrics',
+        summary: 'The metrics of the server, in the Prometheus text format',
+        responses: {
+            200: { description: 'The metrics', text: true },
+        },
+    },
+    {
+        operationId: 'getOpenApiDocument',
+        method: 'GET',
+        path: '/openapi.json',
+        summary: 'This document',
+        responses: {
+            200: {
+                description: 'The OpenAPI document',
+                schema: z.object({}).passthrough(),
+            },
+        },
+    },
+]
+
+// Every request with a body may fail like this before the operation even starts
+const bodyErrors: { [status: number]: ApiResponse } = {
+    400: { description: 'The body is not valid JSON' },
+    408: { description: 'The body took too long to arrive' },
+    413: { description: 'The body is too large' },
+    415: { description: 'The body is not sent as application/json' },
+}
+
+// And every request that needs a scope may fail like this
+const authErrors: { [status: number]: ApiResponse } = {
+    401: { description: 'The requester did not authenticate, or failed to' },
+    403: { description: 'The requester is not allowed to do this' },
+}
+
+// And every rate limited one like this
+const rateLimitErrors: { [status: number]: ApiResponse } = {
+    429: {
+        description:
+            'Too many requests, the Retry-After header tells when to try again',
+    },
+}
+
+// And every POST one sent with an Idempotency-Key like this
+const idempotencyErrors: { [status: number]: ApiResponse } = {
+    409: {
+        description:
+            'The Idempotency-Key was used for another request, or the request with it is still being handled',
+    },
+}
+
+// The responses of the operation along with the ones every operation like it may answer with
+export function documentedResponses(operation: ApiOperation): {
+    [status: number]: ApiResponse
+} {
+    return {
+        ...(operation.body ? bodyErrors : {}),
+        ...(operation.scope ? authErrors : {}),
+        ...(operation.rateLimited ? rateLimitErrors : {}),
+        ...(operation.method === 'POST' ? idempotencyErrors : {}),
+        ...operation.responses,
+    }
+}
+
+function toResponseObject(status: number, response: ApiResponse) {
+    const schema = status >= 400 ? errorResponseJson : response.schema
+    const result: JsonSchema = { description: response.description }
+    if (schema !== undefined) {
+        result['content'] = {
+            'application/json': { schema: toJsonSchema(schema) },
+        }
+    } else if (response.text) {
+        result['content'] = { 'text/plain': { schema: { type: 'string' } } }
+    }
+    if (response.etag) {
+        result['headers'] = {
+            ETag: {
+                description: 'The version of the business, for If-Match',
+                schema: { type: 'string' },
+            },
+        }
+    }
+
+    return result
+}
+
+function toOperationObject(operation: ApiOperation) {
+    const parameters: JsonSchema[] = []
+    for (const segment of operation.path.split('/')) {
+        if (!segment.startsWith(':')) continue
+        parameters.push({
+            name: segment.slice(1),
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+        })
+    }
+    for (const [name, field] of Object.entries<z.ZodTypeAny>(
+        operation.query?.shape ?? {}
+    )) {
+        parameters.push({
+            name,
+            in: 'query',
+            required: !field.isOptional(),
+            schema: toJsonSchema(field),
+        })
+    }
+    if (operation.ifNoneMatch) {
+        parameters.push({
+            name: 'If-None-Match',
+            in: 'header',
+            required: false,
+            description: 'The ETag of the business the client already has',
+            schema: { type: 'string' },
+        })
+    }
+    if (operation.ifMatch) {
+        parameters.push({
+            name: 'If-Match',
+            in: 'header',
+            required: false,
+            description: 'The ETag the business must still have',
+            schema: { type: 'string' },
+        })
+    }
+    if (operation.method === 'POST') {
+        parameters.push({
+            name: 'Idempotency-Key',
+            in: 'header',
+            required: false,
+            description:
+                'Unique for the request, its retries with the same key get the first response again',
+            schema: { type: 'string', minLength: 1, maxLength: 255 },
+        })
+    }
+
+    const responses: { [status: string]: JsonSchema } = {}
+    for (const [status, response] of Object.entries(
+        documentedResponses(operation)
+    )) {
+        responses[status] = toResponseObject(Number(status), response)
+    }
+    responses['default'] = toResponseObject(500, {
+        description: 'Something went wrong on our side',
+    })
+
+    const result: JsonSchema = {
+        operationId: operation.operationId,
+        summary: operation.summary,
+        parameters,
+        responses,
+    }
+    if (operation.body) {
+        result['requestBody'] = {
+            required: true,
+            content: {
+                'application/json': { schema: toJsonSchema(operation.body) },
+            },
+        }
+    }
+    if (operation.scope) {
+        result['security'] = [
+            { bearerToken: [operation.scope] },
+            { apiKey: [operation.scope] },
+            { adminToken: [] },
+        ]
+    }
+
+    return result
+}
+
+export function createOpenApiDocument() {
+    const paths: { [path: string]: { [method: string]: JsonSchema } } = {}
+    for (const operation of apiOperations) {
+        // /business/:id => /business/{id}
+        const path = operation.path.replace(/:(\w+)/g, '{$1}')
+        paths[path] = {
+            ...paths[path],
+            [operation.method.toLowerCase()]: toOperationObject(operation),
+        }
+    }
+
+    const schemas: { [name: string]: JsonSchema } = {}
+    for (const [schema, name] of components) {
+        schemas[name] = toJsonSchema(schema, true)
+    }
+
+    return {
+        openapi: '3.1.0',
+        info: {
+            title: 'nofakes',
+            version: '1.0.0',
+            description: 'Reviews of online and physical businesses',
+        },
+        paths,
+        components: {
+            schemas,
+            securitySchemes: {
+                bearerToken: {
+                    type: 'http',
+                    scheme: 'bearer',
+                    description: 'The token of an end user',
+                },
+                apiKey: {
+                    type: 'apiKey',
+                    in: 'header',
+                    name: 'X-Api-Key',
+                    description: 'The key of a service client',
+                },
+                adminToken: {
+                    type: 'apiKey',
+                    in: 'header',
+                    name: 'X-Admin-Token',
+                    description: 'The admin token of the config',
+                },
+            },
+        },
+    }
+}
@@ -0,0 +1,70 @@
+import * as core from './core'
+
+// The RateLimit-* headers of the IETF draft, see
+// https://datatracker.ietf.org/doc/draft-ietf-httpapi-ratelimit-headers/
+export type RateLimitHeaders = {
+    'RateLimit-Limit': string
+    'RateLimit-Remaining': string
+    // seconds until the bucket is full again
+    'RateLimit-Reset': string
+}
+
+export type RateLimitResult =
+    | { type: 'allowed'; headers: RateLimitHeaders }
+    | { type: 'limited'; headers: RateLimitHeaders; retryAfterSeconds: number }
+    | { type: 'database_error'; error: Error }
+
+function secondsToRefill(tokens: number, limit: core.RateLimit): number {
+    return Math.ceil((Math.max(0, tokens) / limit.refillPerMinute) * 60)
+}
+
+function rateLimitHeaders(
+    take: core.RateLimitTake,
+    limit: core.RateLimit
+): RateLimitHeaders {
+    return {
+        'RateLimit-Limit': String(limit.capacity),
+        'RateLimit-Remaining': String(Math.floor(take.tokens)),
+        'RateLimit-Reset': String(
+            secondsToRefill(limit.capacity - take.tokens, limit)
+        ),
+    }
+}
+
+// Takes a token from the bucket of every key, like one of the client and one of the user. The
+// request is limited as soon as one of them is empty, and the headers tell about the emptiest.
+export async function checkRateLimit(
+    store: core.RateLimitRepository,
+    limit: core.RateLimit,
+    keys: string[],
+    now: Date = new Date()
+): Promise<RateLimitResult> {
+    let emptiest: core.RateLimitTake | undefined
+    for (const key of keys) {
+        const result = await store.takeToken(key, limit, now)
+        if (result.type === 'database_error') return result
+
+        const take = result.value
+        if (!take.allowed) {
+            return {
+                type: 'limited',
+                headers: rateLimitHeaders(take, limit),
+                retryAfterSeconds: Math.max(
+                    1,
+                    secondsToRefill(1 - take.tokens, limit)
+                ),
+            }
+        }
+        if (emptiest === undefined || take.tokens < emptiest.tokens) {
+            emptiest = take
+        }
+    }
+
+    return {
+        type: 'allowed',
+        headers: rateLimitHeaders(
+            emptiest ?? { allowed: true, tokens: limit.capacity },
+            limit
+        ),
+    }
+}
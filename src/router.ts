@@ -0,0 +1,202 @@
+import http from 'http'
+
+export type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+// The params of a path pattern, like the following:
+// '/business/:id/reviews/:reviewId' => { id: string; reviewId: string }
+// '/business' => {}
+export type PathParams<Path extends string> =
+    Path extends `${string}:${infer Param}/${infer Rest}`
+        ? { [key in Param]: string } & PathParams<`/${Rest}`>
+        : Path extends `${string}:${infer Param}`
+        ? { [key in Param]: string }
+        : // eslint-disable-next-line @typescript-eslint/ban-types
+          {}
+
+// The context is whatever the server hands to the router along with the request
+export type RouteHandler<Path extends string, Context> = (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    params: PathParams<Path>,
+    ctx: Context
+) => Promise<void>
+
+// What the router found for a request. HEAD requests are handed to the GET route, and OPTIONS
+// ones are answered with the allowed methods of the path.
+export type RouteMatch<Context> =
+    | {
+          type: 'found'
+          // the pattern of the route, like /business/:id
+          path: string
+          handle: (
+              req: http.IncomingMessage,
+              res: http.ServerResponse,
+              ctx: Context
+          ) => Promise<void>
+      }
+    | { type: 'options'; allowed: string[] }
+    | { type: 'method_not_allowed'; allowed: string[] }
+    | { type: 'not_found' }
+
+// A route handler that takes the params as a plain object, what the typed ones are under the hood
+type StoredRoute<Context> = {
+    path: string
+    paramNames: string[]
+    handler: (
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        params: { [name: string]: string },
+        ctx: Context
+    ) => Promise<void>
+}
+
+// Routes are kept in a tree with a node per path segment, so matching a request takes one map
+// lookup per segment, however many routes there are
+type RouteNode<Context> = {
+    children: Map<string, RouteNode<Context>>
+    // the child that matches any segment, for the ":param" parts of the patterns
+    param: RouteNode<Context> | undefined
+    routes: Map<Method, StoredRoute<Context>>
+}
+
+function createNode<Context>(): RouteNode<Context> {
+    return { children: new Map(), param: undefined, routes: new Map() }
+}
+
+// Splits a path like "/business/1/reviews" into ["business", "1", "reviews"]. A trailing slash
+// gives an empty last segment, which matches no route.
+function splitPath(path: string): string[] {
+    return path.split('/').slice(1)
+}
+
+// Finds the node of the path, trying the exact segments before the params. The values of the
+// params are pushed into "params" in order.
+function findNode<Context>(
+    node: RouteNode<Context>,
+    segments: string[],
+    params: string[]
+): RouteNode<Context> | undefined {
+    const [segment, ...rest] = segments
+    if (segment === undefined) return node
+
+    const child = node.children.get(segment)
+    if (child) {
+        const found = findNode(child, rest, params)
+        if (found) return found
+    }
+
+    if (node.param && segment !== '') {
+        params.push(segment)
+        const found = findNode(node.param, rest, params)
+        if (found) return found
+        params.pop()
+    }
+
+    return undefined
+}
+
+function allowedMethods<Context>(node: RouteNode<Context>): string[] {
+    const allowed: string[] = [...node.routes.keys()]
+    if (node.routes.has('GET')) allowed.push('HEAD')
+    allowed.push('OPTIONS')
+
+    return allowed
+}
+
+export type Router<Context> = {
+    add: <Path extends string>(
+        method: Method,
+        path: Path,
+        handler: RouteHandler<Path, Context>
+    ) => void
+    match: (method: string, pathname: string) => RouteMatch<Context>
+    // every route added so far, in the order they were added
+    routes: () => { method: Method; path: string }[]
+}
+
+export function createRouter<Context>(): Router<Context> {
+    const root = createNode<Context>()
+    const added: { method: Method; path: string }[] = []
+
+    return {
+        add<Path extends string>(
+            method: Method,
+            path: Path,
+            handler: RouteHandler<Path, Context>
+        ) {
+            let node = root
+            const paramNames: string[] = []
+            for (const segment of splitPath(path)) {
+                if (segment.startsWith(':')) {
+                    paramNames.push(segment.slice(1))
+                    node.param ??= createNode()
+                    node = node.param
+                } else {
+                    let child = node.children.get(segment)
+                    if (!child) {
+                        child = createNode()
+                        node.children.set(segment, child)
+                    }
+                    node = child
+                }
+            }
+
+            if (node.routes.has(method)) {
+                throw new Error(`Route ${method} ${path} is already defined`)
+            }
+
+            added.push({ method, path })
+            node.routes.set(method, {
+                path,
+                paramNames,
+                // The params object is built out of the pattern, so it always has the shape of
+                // PathParams<Path>
+                handler: (req, res, params, ctx) =>
+                    handler(req, res, params as PathParams<Path>, ctx),
+            })
+        },
+
+        match(method: string, pathname: string): RouteMatch<Context> {
+            const values: string[] = []
+            const node = findNode(root, splitPath(pathname), values)
+            if (!node || node.routes.size === 0) return { type: 'not_found' }
+
+            if (method === 'OPTIONS') {
+                return { type: 'options', allowed: allowedMethods(node) }
+            }
+
+            const route = node.routes.get(
+                (method === 'HEAD' ? 'GET' : method) as Method
+            )
+            if (!route) {
+                return {
+                    type: 'method_not_allowed',
+                    allowed: allowedMethods(node),
+                }
+            }
+
+            let params: { [name: string]: string }
+            try {
+                params = Object.fromEntries(
+                    route.paramNames.map((name, i) => [
+                        name,
+                        decodeURIComponent(values[i] ?? ''),
+                    ])
+                )
+            } catch {
+                // malformed percent encoding, like "/business/%E0"
+                return { type: 'not_found' }
+            }
+
+            return {
+                type: 'found',
+                path: route.path,
+                handle: (req, res, ctx) => route.handler(req, res, params, ctx),
+            }
+        },
+
+        routes() {
+            return [...added]
+        },
+    }
+}
@@ -0,0 +1,279 @@
+import { z } from 'zod'
+
+import { authScopes } from './core'
+
+// The shapes of everything the api receives and sends. The handlers validate their input with
+// these, and the OpenAPI document is generated out of them (see openapi.ts), so both never
+// drift apart. Response schemas are strict, extra fields are a breaking change for the spec too.
+
+export const createBusinessJson = z.discriminatedUnion('type', [
+    z.object({
+        type: z.literal('online'),
+        value: z.object({
+            name: z.string().min(1),
+            website: z.string().min(1),
+            email: z.string().email(),
+        }),
+    }),
+    z.object({
+        type: z.literal('physical'),
+        value: z.object({
+            name: z.string().min(1),
+            address: z.string().min(1),
+            phone: z.string().min(1),
+            email: z.string().email(),
+        }),
+    }),
+])
+
+// CreateBusinessInput represents the necessary data to create either a physical
+// or an online business
+export type CreateBusinessInput = z.infer<typeof createBusinessJson>
+
+export const patchBusinessJson = z
+    .object({
+        name: z.string().min(1),
+        email: z.string().email(),
+        website: z.string().min(1),
+        address: z.string().min(1),
+        phone: z.string().min(1),
+    })
+    .partial()
+    .strict()
+
+export const listBusinessesQuery = z.object({
+    type: z.enum(['online', 'physical']).optional(),
+    min_avg_rating: z.coerce.number().min(0).max(5).optional(),
+    min_total_reviews: z.coerce.number().int().min(0).optional(),
+    name_prefix: z.string().min(1).optional(),
+    name_contains: z.string().min(1).optional(),
+    sort: z.enum(['rating', 'reviews', 'name']).default('name'),
+    limit: z.coerce.number().int().min(1).max(50).default(10),
+    cursor: z.string().optional(),
+})
+
+export const postReviewJson = z.object({
+    text: z.string(),
+    rating: z.number(),
+})
+
+export const patchReviewJson = z
+    .object({
+        text: z.string(),
+        rating: z.number(),
+    })
+    .partial()
+    .strict()
+
+export const listReviewsQuery = z.object({
+    sort: z.enum(['newest', 'oldest', 'highest', 'lowest']).default('newest'),
+    rating: z.coerce.number().int().min(1).max(5).optional(),
+    limit: z.coerce.number().int().min(1).max(50).default(10),
+    cursor: z.string().optional(),
+})
+
+export const reportReviewJson = z.object({
+    reason: z.string().min(1).max(500),
+})
+
+export const moderateReviewJson = z.object({
+    reason: z.string().min(1).max(500),
+})
+
+export const moderationQueueQuery = z.object({
+    queue: z.enum(['pending', 'reported']).default('pending'),
+    limit: z.coerce.number().int().min(1).max(50).default(10),
+})
+
+export const replyJson = z.object({
+    text: z.string(),
+})
+
+const scopesJson = z.array(z.enum(authScopes)).min(1)
+
+export const createApiKeyJson = z.object({
+    name: z.string().min(1).max(100),
+    scopes: scopesJson,
+})
+
+export const createTokenJson = z.object({
+    username: z.string().min(1).max(100),
+    scopes: scopesJson,
+    // defaults to the token lifetime of the config
+    expires_in_seconds: z.number().int().min(1).optional(),
+})
+
+// Dates are sent as ISO 8601 strings
+const dateJson = z.string().datetime()
+
+export const replyResponseJson = z
+    .object({
+        text: z.string(),
+        creation_date: dateJson,
+        update_date: dateJson,
+    })
+    .strict()
+
+export const reviewResponseJson = z
+    .object({
+        id: z.string(),
+        business_id: z.string(),
+        text: z.string(),
+        rating: z.number().int().min(1).max(5),
+        username: z.string(),
+        creation_date: dateJson,
+        status: z.enum(['pending', 'approved', 'rejected']),
+        moderation_reason: z.string().nullable(),
+        reply: replyResponseJson.nullable(),
+    })
+    .strict()
+
+// The moderators also see what the fake review detection found, nobody else does
+export const moderatedReviewResponseJson = reviewResponseJson
+    .extend({
+        fake_score: z.number().min(0).max(1),
+        fake_reasons: z.array(z.string()),
+    })
+    .strict()
+
+const ratingHistogramJson = z
+    .object({
+        1: z.number().int(),
+        2: z.number().int(),
+        3: z.number().int(),
+        4: z.number().int(),
+        5: z.number().int(),
+    })
+    .strict()
+
+const businessCommonJson = {
+    id: z.string(),
+    name: z.string(),
+    email: z.string(),
+    total_reviews: z.number().int(),
+    avg_rating: z.number(),
+    rating_histogram: ratingHistogramJson,
+    latest_reviews: z.array(reviewResponseJson),
+    version: z.number().int(),
+}
+
+// Businesses are sent flattened, the "type" tells which fields they have
+export const businessResponseJson = z.discriminatedUnion('type', [
+    z
+        .object({
+            type: z.literal('online'),
+            ...businessCommonJson,
+            website: z.string(),
+        })
+        .strict(),
+    z
+        .object({
+            type: z.literal('physical'),
+            ...businessCommonJson,
+            address: z.string(),
+            phone: z.string(),
+        })
+        .strict(),
+])
+
+const nextCursorJson = z.string().nullable()
+
+export const businessesPageResponseJson = z
+    .object({
+        businesses: z.array(businessResponseJson),
+        next_cursor: nextCursorJson,
+    })
+    .strict()
+
+export const reviewsPageResponseJson = z
+    .object({
+        reviews: z.array(reviewResponseJson),
+        next_cursor: nextCursorJson,
+    })
+    .strict()
+
+export const moderationQueueResponseJson = z
+    .object({
+        reviews: z.array(
+            z
+                .object({
+                    review: moderatedReviewResponseJson,
+                    reports: z.array(
+                        z
+                            .object({
+                                reason: z.string(),
+                                creation_date: dateJson,
+                            })
+                            .strict()
+                    ),
+                })
+                .strict()
+        ),
+    })
+    .strict()
+
+export const apiKeyResponseJson = z
+    .object({
+        id: z.string(),
+        name: z.string(),
+        scopes: z.array(z.enum(authScopes)),
+        creation_date: dateJson,
+        revoked_date: dateJson.nullable(),
+    })
+    .strict()
+
+// The key itself is only sent once, when it's created
+export const createdApiKeyResponseJson = apiKeyResponseJson
+    .extend({ key: z.string() })
+    .strict()
+
+export const apiKeysResponseJson = z
+    .object({
+        api_keys: z.array(apiKeyResponseJson),
+    })
+    .strict()
+
+export const tokenResponseJson = z
+    .object({
+        token: z.string(),
+        expires_at: dateJson,
+    })
+    .strict()
+
+export const healthResponseJson = z
+    .object({
+        status: z.literal('ok'),
+    })
+    .strict()
+
+export const errorResponseJson = z
+    .object({
+        error: z
+            .object({
+                code: z.enum([
+                    'bad_request',
+                    'validation_failed',
+                    'unauthorized',
+                    'forbidden',
+                    'not_found',
+                    'method_not_allowed',
+                    'conflict',
+                    'precondition_failed',
+                    'request_timeout',
+                    'payload_too_large',
+                    'unsupported_media_type',
+                    'too_many_requests',
+                    'internal_error',
+                    'service_unavailable',
+                ]),
+                message: z.string(),
+                details: z.array(
+                    z
+                        .object({ field: z.string(), message: z.string() })
+                        .strict()
+                ),
+                request_id: z.string().nullable(),
+            })
+            .strict(),
+    })
+    .strict()
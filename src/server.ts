@@ -1,11 +1,84 @@
+import crypto from 'crypto'
 import http from 'http'
-import * as net from 'net'
 import { z } from 'zod'
 
 import * as core from './core'
-import config from './config'
+import { Config, loadConfig } from './config'
 import { assertNever } from './utils'
-import { createMongoDbStore } from './mongodb_store'
+import {
+    closeAllConns,
+    createMongoDbApiKeyStore,
+    createMongoDbIdempotencyStore,
+    createMongoDbRateLimitStore,
+    createMongoDbStore,
+} from './mongodb_store'
+import { closeAllSqliteDbs, createSqliteStore } from './sqlite_store'
+import {
+    createInMemApiKeyStore,
+    createInMemDb,
+    createInMemIdempotencyStore,
+    createInMemRateLimitStore,
+} from './inmem_store'
+import {
+    Identity,
+    authenticate,
+    generateApiKey,
+    hasScope,
+    hashApiKey,
+    signToken,
+} from './auth'
+import {
+    FakeDetector,
+    createDefaultFakeDetector,
+    createFakeDetector,
+} from './fake_detection'
+import { createRouter } from './router'
+import { createLogger } from './logger'
+import { MetricsRegistry, createMetricsRegistry } from './metrics'
+import { createInstrumentedStore } from './instrumented_store'
+import { createCachedStore } from './cached_store'
+import { apiOperations, createOpenApiDocument } from './openapi'
+import { BodyLimits, readJsonBody } from './body'
+import { checkRateLimit } from './rate_limit'
+import {
+    CreateBusinessInput,
+    createApiKeyJson,
+    createBusinessJson,
+    createTokenJson,
+    listBusinessesQuery,
+    listReviewsQuery,
+    moderateReviewJson,
+    moderationQueueQuery,
+    patchBusinessJson,
+    patchReviewJson,
+    postReviewJson,
+    replyJson,
+    reportReviewJson,
+} from './schemas'
+import {
+    writeApiError,
+    writeBadRequestError,
+    writeConflictError,
+    writeForbiddenError,
+    writeInternalError,
+    writeMethodNotAllowedError,
+    writeNotFoundError,
+    writePayloadTooLargeError,
+    writePreconditionFailedError,
+    writeRequestTimeoutError,
+    writeTooManyRequestsError,
+    writeUnauthorizedError,
+    writeUnavailableError,
+    writeUnsupportedMediaTypeError,
+    writeValidationError,
+} from './errors'
+import {
+    Middleware,
+    RequestContext,
+    composeMiddlewares,
+    cors,
+    securityHeaders,
+} from './middleware'
 
 // The default parseInt returns also NaN, which as the name tells, is not a number.
 // But for some reason for typescirpt it IS a number. Let's better enforce this variant.
@@ -16,126 +89,320 @@ function safeParseInt(unparsed: string): number | undefined {
     return parsed
 }
 
-function writeError(res: http.ServerResponse, err: Error) {
-    res.writeHead(400, { 'Content-Type': 'text/plain' })
-    res.end(err.message)
+function writeJson(
+    res: http.ServerResponse,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    json: { [key: string]: any },
+    status = 200,
+    headers: http.OutgoingHttpHeaders = {}
+) {
+    const body = JSON.stringify(json)
+    res.writeHead(status, {
+        ...headers,
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(body),
+    })
+    res.end(body)
 }
 
-function writeNotFoundError(res: http.ServerResponse, err: Error) {
-    res.writeHead(404, { 'Content-Type': 'text/plain' })
-    res.end(err.message)
+// The ETag of a business is just its version, which changes whenever the business does
+function businessETag(business: core.Business): string {
+    return `"${business.value.version}"`
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function writeJson(res: http.ServerResponse, json: { [key: string]: any }) {
-    res.writeHead(200, { 'Content-Type': 'application/json' })
-    res.end(JSON.stringify(json))
+// Whether the If-None-Match header has the ETag, so the client already has the same business.
+// Weak tags match too, as the header is only used for reads.
+function matchesIfNoneMatch(header: string | undefined, etag: string): boolean {
+    if (header === undefined) return false
+    if (header.trim() === '*') return true
+
+    return header
+        .split(',')
+        .map((tag) => tag.trim().replace(/^W\//, ''))
+        .includes(etag)
 }
 
-function parseJson(req: http.IncomingMessage): Promise<unknown> {
-    return new Promise((resolve, reject) => {
-        let body = ''
-        req.once('data', (chunk) => {
-            try {
-                body += chunk.toString()
-            } catch (err) {
-                // just in case
-                reject(err)
-            }
-        })
-        req.once('end', () => {
-            try {
-                const data = JSON.parse(body)
-                resolve(data)
-            } catch (error) {
-                reject(error)
-            }
-        })
-    })
+// Clients may keep the businesses, but must check with us that they are still current
+const businessCacheControl = 'no-cache'
+
+// Idempotency-Key values are opaque, like a uuid. Only visible ascii characters are allowed, they
+// end up in the database.
+const idempotencyKeyPattern = /^[\x21-\x7e]{1,255}$/
+
+// A request that holds its Idempotency-Key for longer than this is assumed lost, like when the
+// server crashed while handling it, and the key can be used again
+const idempotencyLockMs = 60 * 1000
+
+// A POST request sent with an Idempotency-Key. The key is claimed once the body is read.
+type IdempotentRequest = {
+    // scoped to whoever sent it
+    key: string
+    ctx: RequestContext
+    claimed: boolean
+}
+
+// Keys are only unique for whoever sends them, so nobody gets the responses of somebody else.
+// The credentials are hashed, they must not end up in the database.
+function idempotencyScope(req: http.IncomingMessage): string {
+    const credentials = [
+        req.headers['authorization'],
+        req.headers['x-api-key'],
+        req.headers['x-admin-token'],
+    ].find((value): value is string => typeof value === 'string')
+    if (credentials === undefined) return `ip:${req.socket.remoteAddress}`
+
+    return crypto.createHash('sha256').update(credentials).digest('hex')
+}
+
+// Keeps what is passed to res.end, which is how every handler sends its body
+function captureResponseBody(res: http.ServerResponse): () => string {
+    let body = ''
+    const end = res.end
+    res.end = function (this: http.ServerResponse, ...args: unknown[]) {
+        const [chunk] = args
+        if (typeof chunk === 'string') body = chunk
+        if (chunk instanceof Uint8Array) body = Buffer.from(chunk).toString()
+        return Reflect.apply(end, this, args)
+    } as typeof res.end
+
+    return () => body
+}
+
+// The headers that are about the request being answered and not about the response, like the
+// CORS ones, which depend on the origin of the request
+function isRequestHeader(name: string): boolean {
+    return (
+        ['x-request-id', 'content-length', 'connection', 'vary'].includes(
+            name
+        ) || name.startsWith('access-control-')
+    )
+}
+
+function replayableHeaders(res: http.ServerResponse): {
+    [name: string]: string
+} {
+    const headers: { [name: string]: string } = {}
+    for (const [name, value] of Object.entries(res.getHeaders())) {
+        if (value !== undefined && !isRequestHeader(name)) {
+            headers[name] = String(value)
+        }
+    }
+    return headers
+}
+
+// Server errors are not kept, retrying them may work, and neither are the requests that were
+// not let in. The key is claimed after the authentication and the rate limiting, so these only
+// show up if a handler sends them later.
+function isReplayable(status: number): boolean {
+    return status < 500 && ![401, 403, 429].includes(status)
+}
+
+// Only the path and the query of the request are used. They are parsed against a fixed base,
+// the Host header comes from the client and may be anything.
+const requestUrlBase = 'http://localhost'
+
+function parseRequestUrl(target: string): URL | undefined {
+    try {
+        return new URL(target, requestUrlBase)
+    } catch {
+        return undefined
+    }
+}
+
+// The hash of the key stays with us
+function apiKeyResponse(apiKey: core.ApiKey) {
+    return {
+        id: apiKey.id,
+        name: apiKey.name,
+        scopes: apiKey.scopes,
+        creation_date: apiKey.creation_date,
+        revoked_date: apiKey.revoked_date,
+    }
+}
+
+// What the fake review detection found is only for the moderators. Telling the posters which
+// heuristics caught their reviews would show them how to get around them.
+function reviewResponse(review: core.Review) {
+    return {
+        id: review.id,
+        business_id: review.business_id,
+        text: review.text,
+        rating: review.rating,
+        username: review.username,
+        creation_date: review.creation_date,
+        status: review.status,
+        moderation_reason: review.moderation_reason,
+        reply: review.reply,
+    }
+}
+
+// I prefer to reduce json nesting to keep things simple. The API consumers can tell which type
+// the business is just by looking at it's "type" property.
+function businessResponse(business: core.Business) {
+    return {
+        type: business.type,
+        ...business.value,
+        latest_reviews: business.value.latest_reviews.map(reviewResponse),
+    }
+}
+
+// Gets the version that the If-Match header requires, like the following:
+// If-Match: "3" => 3
+// If-Match: * (or no header at all) => undefined, any version is fine
+// If-Match: W/"3" => null, weak tags can't be used for writes, so it matches no version
+function parseIfMatch(header: string | undefined): number | undefined | null {
+    if (header === undefined || header.trim() === '*') return undefined
+
+    const match = /^\s*"(\d+)"\s*$/.exec(header)
+    if (!match || match[1] === undefined) return null
+
+    return safeParseInt(match[1]) ?? null
+}
+
+// Cursors are opaque for the API consumers, they just have to send back what we gave them.
+// Under the hood they are just the core cursor types as base64 encoded json.
+const reviewCursorJson = z.object({
+    rating: z.number(),
+    seq: z.number(),
+})
+
+const businessCursorJson = z.object({
+    value: z.union([z.number(), z.string()]),
+    id: z.string(),
+})
+
+function encodeCursor(cursor: core.ReviewCursor | core.BusinessCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+function decodeCursor<T>(schema: z.ZodType<T>, encoded: string): T | undefined {
+    try {
+        const json = JSON.parse(Buffer.from(encoded, 'base64url').toString())
+        const parseResult = schema.safeParse(json)
+        if (!parseResult.success) return undefined
+
+        return parseResult.data
+    } catch {
+        return undefined
+    }
+}
+
+function validateReviewText(text: string): Error | undefined {
+    if (text.length < 20) return new Error('Review text is too short')
+    if (text.length > 500) return new Error('Review text is too long')
+}
+
+// Replies can be shorter than reviews, a "Thank you!" is fine
+function validateReplyText(text: string): Error | undefined {
+    if (text.length < 5) return new Error('Reply text is too short')
+    if (text.length > 1000) return new Error('Reply text is too long')
+}
+
+// Rating. Between 1 and 5. Without decimals.
+function validateRating(rating: number): Error | undefined {
+    if (rating < 1 || rating > 5) return new Error('Rating is out of range')
+    if (rating % 1 !== 0) return new Error('Rating must be an integer')
 }
 
-// Tells whether a certain URL matches a path, like the following:
-// url: /business
-// path: '/business' => matches
-//
-// url: /business/1234
-// path: '/business' => matches
-//
-// url: /reviews/1234/business
-// path: '/business' => does not match
-//
-function matchesPath(url: URL, path: string): boolean {
-    return url.pathname.slice(0, path.length) === path
+// The request id given by a proxy or the client, so the requests can be followed across services.
+// It ends up in our logs, so only the usual id characters are allowed.
+function incomingRequestId(req: http.IncomingMessage): string | undefined {
+    const requestId = req.headers['x-request-id']
+    if (typeof requestId !== 'string') return undefined
+    if (!/^[\w.:-]{1,128}$/.test(requestId)) return undefined
+
+    return requestId
 }
 
-// Get's the id from a path like the following:
-// url: /business/1234 => 1234
-// url: /business => undefined
-function getPathParam(url: URL): string | undefined {
-    const parts = url.pathname.split('/')
-    const param = parts[parts.length - 1]
-    return param
+export type ServerOptions = {
+    // Scores every new review, see fake_detection.ts. Defaults to createDefaultFakeDetector,
+    // or to one that scores them all 0 when the fake detection is turned off.
+    detector?: FakeDetector
+    // Run around every request, the first one is the outermost. Defaults to the security
+    // headers and CORS for the origins of the config.
+    middlewares?: Middleware[]
+    // Defaults to the ones of the config
+    bodyLimits?: BodyLimits
+    // Where the metrics of GET /metrics are kept. Defaults to a new registry.
+    metrics?: MetricsRegistry
+    // Where the API keys are kept. Defaults to an in memory store.
+    apiKeys?: core.ApiKeyRepository
+    // Where the rate limit buckets are kept. Defaults to an in memory store, which is not shared
+    // with other instances of the server.
+    rateLimits?: core.RateLimitRepository
+    // Where the responses for the Idempotency-Key header are kept. Defaults to an in memory store,
+    // the same as the rate limits.
+    idempotency?: core.IdempotencyRepository
 }
 
 type StartedServer = {
     stop: () => Promise<void>
 }
 
-// CreateBusinessInput represents the necessary data to create either a physical
-// or an online business
-export type CreateBusinessInput =
-    | {
-          type: 'online'
-          value: {
-              name: string
-              website: string
-              email: string
-          }
-      }
-    | {
-          type: 'physical'
-          value: {
-              name: string
-              address: string
-              phone: string
-              email: string
-          }
-      }
+// How long GET /readyz waits for the database
+const readinessTimeoutMs = 2000
+
+// The maximum length of a business name, which depends on its type
+const maxNameLength: { [type in core.Business['type']]: number } = {
+    online: 75,
+    physical: 50,
+}
+
+// Invalid input is told apart from database errors, since only the first ones are the fault of
+// the API consumer
+export type CreateBusinessResult =
+    | { type: 'success'; value: core.Business }
+    | { type: 'invalid'; error: Error }
+    | { type: 'database_error'; error: Error }
 
 export async function createBusiness(
     input: CreateBusinessInput,
     db: core.BusinessRepository,
     log: core.Logger
-): Promise<void | Error> {
+): Promise<CreateBusinessResult> {
     if (input.type === 'online') {
         const business = input.value
-        if (business.name.length > 75) {
-            return new Error(`Business name is too long`)
+        if (business.name.length > maxNameLength.online) {
+            return {
+                type: 'invalid',
+                error: new Error(`Business name is too long`),
+            }
         }
 
         const result = await db.createOnlineBusiness(business)
-        if (result.type === 'database_error') {
-            return new Error(`Database error: ${result.error.message}`)
-        }
+        if (result.type === 'database_error') return result
         if (result.type === 'success') {
-            log('info', `Created new business ${result.value.name}`)
-            return
+            log.info('Created business', {
+                business_id: result.value.id,
+                business_type: input.type,
+            })
+            return {
+                type: 'success',
+                value: { type: 'online', value: result.value },
+            }
         }
         assertNever(result)
     } else if (input.type === 'physical') {
         const business = input.value
-        if (business.name.length > 50) {
-            return new Error(`Business name is too long`)
+        if (business.name.length > maxNameLength.physical) {
+            return {
+                type: 'invalid',
+                error: new Error(`Business name is too long`),
+            }
         }
 
         const result = await db.createPhysicalBusiness(business)
-        if (result.type === 'database_error') {
-            return new Error(`Database error: ${result.error.message}`)
-        }
+        if (result.type === 'database_error') return result
 
         if (result.type === 'success') {
-            log('info', `Created new business ${result.value.name}`)
-            return
+            log.info('Created business', {
+                business_id: result.value.id,
+                business_type: input.type,
+            })
+            return {
+                type: 'success',
+                value: { type: 'physical', value: result.value },
+            }
         }
 
         assertNever(result)
@@ -145,13 +412,218 @@ export async function createBusiness(
 }
 
 export function startServer(
+    config: Config,
     log: core.Logger,
-    db: core.BusinessRepository
+    repository: core.BusinessRepository,
+    options: ServerOptions = {}
 ): StartedServer {
-    // getBusinessHandler will try to get a business by id. If the id is invalid, it will return a 400 error.
+    const metrics = options.metrics ?? createMetricsRegistry()
+    // The cache goes outside, so the repository metrics only count the actual database calls
+    const instrumented = createInstrumentedStore(repository, metrics)
+    const db = config.features.businessCache
+        ? createCachedStore(instrumented, { ...config.cache, metrics })
+        : instrumented
+    const httpRequests = metrics.counter(
+        'http_requests_total',
+        'Requests answered, by method, route and status'
+    )
+    const httpDurations = metrics.histogram(
+        'http_request_duration_seconds',
+        'Time to answer the requests, by method, route and status'
+    )
+    const reviewsCreated = metrics.counter(
+        'reviews_created_total',
+        'Reviews created, by the status they got'
+    )
+    const reviewsRejected = metrics.counter(
+        'reviews_rejected_total',
+        'Reviews rejected by the moderators'
+    )
+    const rateLimited = metrics.counter(
+        'rate_limited_total',
+        'Requests rejected by the rate limits, by route'
+    )
+
+    const detector =
+        options.detector ??
+        (config.features.fakeDetection
+            ? createDefaultFakeDetector(db)
+            : createFakeDetector(db, []))
+    const bodyLimits = options.bodyLimits ?? config.body
+    const apiKeys = options.apiKeys ?? createInMemApiKeyStore()
+    const rateLimits = options.rateLimits ?? createInMemRateLimitStore()
+    const idempotency = options.idempotency ?? createInMemIdempotencyStore()
+    const middlewares = options.middlewares ?? [
+        securityHeaders(config.features.hsts ? {} : { hsts: false }),
+        cors({ allowedOrigins: config.corsOrigins }),
+    ]
+
+    // The requests sent with an Idempotency-Key, see handleIdempotently
+    const idempotentRequests = new WeakMap<
+        http.IncomingMessage,
+        IdempotentRequest
+    >()
+
+    // Reads the json body of the request. When it can't, the error response is written and
+    // undefined is returned, which is never the value of a json document. The same goes for the
+    // repeats of an idempotent request, which get the first response instead.
+    async function readJson(
+        req: http.IncomingMessage,
+        res: http.ServerResponse
+    ): Promise<unknown> {
+        const result = await readJsonBody(req, bodyLimits)
+        if (result.type === 'success') {
+            const idempotent = idempotentRequests.get(req)
+            if (
+                idempotent !== undefined &&
+                !(await claimIdempotencyKey(req, res, idempotent, result.value))
+            ) {
+                return undefined
+            }
+
+            return result.value
+        }
+
+        if (result.type === 'unsupported_media_type') {
+            writeUnsupportedMediaTypeError(
+                res,
+                new Error('The body must be sent as application/json')
+            )
+        } else if (result.type === 'too_large') {
+            writePayloadTooLargeError(
+                res,
+                new Error(
+                    `The body must not exceed ${bodyLimits.maxBytes} bytes`
+                )
+            )
+        } else if (result.type === 'malformed') {
+            writeBadRequestError(res, new Error('The body is not valid JSON'))
+        } else if (result.type === 'timeout') {
+            writeRequestTimeoutError(
+                res,
+                new Error('The body took too long to arrive')
+            )
+        } else if (result.type === 'aborted') {
+            res.destroy()
+        } else {
+            assertNever(result)
+        }
+
+        return undefined
+    }
+
+    // The error goes to our logs only, it may tell things about our internals
+    function writeDatabaseError(
+        log: core.Logger,
+        res: http.ServerResponse,
+        err: Error
+    ) {
+        log.error('Database error', { error: err })
+        if (err instanceof core.DatabaseUnavailableError) {
+            writeUnavailableError(res)
+        } else {
+            writeInternalError(res)
+        }
+    }
+
+    // Checks that the requester authenticated, and that it has the scope. If not, the error
+    // response is written and undefined is returned.
+    async function authorize(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        log: core.Logger,
+        scope: core.AuthScope
+    ): Promise<Identity | undefined> {
+        const result = await authenticate(req, {
+            adminToken: config.adminToken,
+            tokenSecret: config.auth.tokenSecret,
+            apiKeys,
+        })
+        if (result.type === 'anonymous') {
+            writeUnauthorizedError(
+                res,
+                new Error('Send a bearer token or an API key')
+            )
+            return
+        }
+
+        if (result.type === 'invalid') {
+            writeUnauthorizedError(res, result.error)
+            return
+        }
+
+        if (result.type === 'database_error') {
+            writeDatabaseError(log, res, result.error)
+            return
+        }
+
+        if (result.type === 'success') {
+            if (!hasScope(result.value, scope)) {
+                writeForbiddenError(
+                    res,
+                    new Error(`The ${scope} scope is required`)
+                )
+                return
+            }
+
+            return result.value
+        }
+
+        assertNever(result)
+    }
+
+    // Takes a token from the buckets of the client and of the user, if any, for the route. When the
+    // request is limited the error response is written and false is returned. The RateLimit-*
+    // headers are sent either way.
+    async function rateLimit(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        log: core.Logger,
+        route: keyof Config['rateLimit'],
+        identity?: Identity
+    ): Promise<boolean> {
+        if (!config.features.rateLimit) return true
+
+        const keys = [`${route}:ip:${req.socket.remoteAddress}`]
+        if (identity !== undefined) keys.push(`${route}:user:${identity.name}`)
+
+        const result = await checkRateLimit(
+            rateLimits,
+            config.rateLimit[route],
+            keys
+        )
+        // Better to let a few requests too many through than to fail them all
+        if (result.type === 'database_error') {
+            log.warn('Rate limit check failed', { error: result.error })
+            return true
+        }
+
+        for (const [name, value] of Object.entries(result.headers)) {
+            res.setHeader(name, value)
+        }
+        if (result.type === 'allowed') return true
+
+        if (result.type === 'limited') {
+            log.info('Rate limited', { route, keys })
+            rateLimited.inc({ route })
+            writeTooManyRequestsError(
+                res,
+                result.retryAfterSeconds,
+                new Error(
+                    `Too many requests, try again in ${result.retryAfterSeconds} seconds`
+                )
+            )
+            return false
+        }
+
+        assertNever(result)
+    }
+
+    // getBusinessHandler will try to get a business by id. If there is none, it will return a 404 error.
     async function getBusinessHandler(
         req: http.IncomingMessage,
         res: http.ServerResponse,
+        log: core.Logger,
         businessId: core.BusinessId
     ) {
         const result = await db.getBusiness(businessId)
@@ -164,185 +636,1492 @@ export function startServer(
         }
 
         if (result.type === 'database_error') {
-            log('error', result.error.message)
-            writeError(res, new Error('Database error happened'))
+            writeDatabaseError(log, res, result.error)
             return
         }
 
         if (result.type === 'success') {
             const business = result.value
+            const headers = {
+                ETag: businessETag(business),
+                'Cache-Control': businessCacheControl,
+            }
 
-            // I prefer to reduce json nesting to keep things simple. The API consumers can tell
-            // which type the business is just by looking at it's "type" property.
-            writeJson(res, {
-                type: business.type,
-                ...business.value,
-            })
+            if (
+                matchesIfNoneMatch(req.headers['if-none-match'], headers.ETag)
+            ) {
+                res.writeHead(304, headers)
+                res.end()
+                return
+            }
+
+            writeJson(res, businessResponse(business), 200, headers)
             return
         }
 
         assertNever(result)
     }
 
-    const postReviewJson = z.object({
-        text: z.string(),
-        rating: z.number(),
-        username: z.string(),
-    })
+    // Fields that can only be updated on a certain type of business
+    const typeOnlyFields: {
+        [type in core.Business['type']]: (keyof core.UpdateBusinessData)[]
+    } = {
+        online: ['website'],
+        physical: ['address', 'phone'],
+    }
 
-    async function postReviewHandler(
+    // patchBusinessHandler updates the given fields of a business. When the If-Match header is sent,
+    // the update only happens if the business did not change since the client fetched it.
+    async function patchBusinessHandler(
         req: http.IncomingMessage,
         res: http.ServerResponse,
+        log: core.Logger,
         businessId: core.BusinessId
     ): Promise<void> {
-        const parsedBusinessId = safeParseInt(businessId)
-        if (parsedBusinessId === undefined) {
-            writeError(res, new Error('Invalid business id provided'))
+        if (!(await authorize(req, res, log, 'business:write'))) return
+
+        const expectedVersion = parseIfMatch(req.headers['if-match'])
+        if (expectedVersion === null) {
+            writePreconditionFailedError(
+                res,
+                new Error('If-Match does not match the current version')
+            )
             return
         }
 
-        const jsonData = await parseJson(req)
-        const parseResult = postReviewJson.safeParse(jsonData)
+        const jsonData = await readJson(req, res)
+        if (jsonData === undefined) return
+        const parseResult = patchBusinessJson.safeParse(jsonData)
         if (!parseResult.success) {
-            writeError(res, new Error('Invalid data format'))
+            writeValidationError(res, parseResult.error)
             return
         }
-
         const input = parseResult.data
 
-        if (input.text.length < 20) {
-            writeError(res, new Error('Review text is too short'))
+        // We need the type of the business in order to validate the input
+        const current = await db.getBusiness(businessId)
+        if (current.type === 'record_not_found') {
+            writeNotFoundError(
+                res,
+                new Error(`Business with id ${businessId} not found`)
+            )
             return
-        } else if (input.text.length > 500) {
-            writeError(res, new Error('Review text is too long'))
+        }
+
+        if (current.type === 'database_error') {
+            writeDatabaseError(log, res, current.error)
             return
         }
 
-        // Rating. Between 1 and 5. Without decimals.
-        if (input.rating < 1 || input.rating > 5) {
-            writeError(res, new Error('Rating is out of range'))
+        const { type } = current.value
+        for (const otherType of ['online', 'physical'] as const) {
+            if (otherType === type) continue
+
+            const field = typeOnlyFields[otherType].find(
+                (field) => input[field] !== undefined
+            )
+            if (field !== undefined) {
+                writeValidationError(
+                    res,
+                    new Error(
+                        `Field ${field} does not apply to ${type} businesses`
+                    )
+                )
+                return
+            }
+        }
+
+        if (
+            input.name !== undefined &&
+            input.name.length > maxNameLength[type]
+        ) {
+            writeValidationError(res, new Error(`Business name is too long`))
             return
-        } else if (input.rating % 1 !== 0) {
-            writeError(res, new Error('Rating must be an integer'))
+        }
+
+        const result = await db.updateBusiness(
+            businessId,
+            input,
+            expectedVersion
+        )
+        if (result.type === 'record_not_found') {
+            writeNotFoundError(
+                res,
+                new Error(`Business with id ${businessId} not found`)
+            )
             return
         }
 
-        const reviewResult = await db.createReview(businessId, input)
-        if (reviewResult.type === 'database_error') {
-            writeError(
+        if (result.type === 'version_mismatch') {
+            writePreconditionFailedError(
                 res,
-                new Error(`Database error: ${reviewResult.error.message}`)
+                new Error('If-Match does not match the current version')
             )
             return
         }
 
-        if (reviewResult.type === 'success') {
-            log('info', `Created new review for business ${businessId}`)
-            res.writeHead(201)
-            res.end()
+        if (result.type === 'database_error') {
+            writeDatabaseError(log, res, result.error)
             return
         }
 
-        assertNever(reviewResult)
+        if (result.type === 'success') {
+            const business = result.value
+            log.info('Updated business', { business_id: businessId })
+            writeJson(res, businessResponse(business), 200, {
+                ETag: businessETag(business),
+            })
+            return
+        }
+
+        assertNever(result)
     }
 
-    async function mainHandler(
+    // deleteBusinessHandler deletes a business along with its reviews. It honours If-Match the
+    // same way patchBusinessHandler does.
+    async function deleteBusinessHandler(
         req: http.IncomingMessage,
-        res: http.ServerResponse
+        res: http.ServerResponse,
+        log: core.Logger,
+        businessId: core.BusinessId
     ): Promise<void> {
-        if (req.url === undefined) throw new Error('no url found')
+        if (!(await authorize(req, res, log, 'business:write'))) return
+
+        const expectedVersion = parseIfMatch(req.headers['if-match'])
+        if (expectedVersion === null) {
+            writePreconditionFailedError(
+                res,
+                new Error('If-Match does not match the current version')
+            )
+            return
+        }
 
-        const url = new URL(req.url, `http://${req.headers.host}`)
+        const result = await db.deleteBusiness(businessId, expectedVersion)
+        if (result.type === 'record_not_found') {
+            writeNotFoundError(
+                res,
+                new Error(`Business with id ${businessId} not found`)
+            )
+            return
+        }
 
-        // Regex pattern matching works for now, but I completely agree that is not the best way to do it.
-        // Regexes are compiled for every single request, which is expensive.
-        // The reason I went with regexes is because I wanted to keep the code with as
-        // few dependencies as possible.
+        if (result.type === 'version_mismatch') {
+            writePreconditionFailedError(
+                res,
+                new Error('If-Match does not match the current version')
+            )
+            return
+        }
 
-        if (matchesPath(url, '/business')) {
-            // GET /business/:id
-            if (
-                req.method === 'GET' &&
-                /\/business\/[a-zA-Z0-9]+$/.test(url.pathname)
-            ) {
-                const id = getPathParam(url)
-                if (id) {
-                    await getBusinessHandler(req, res, id)
-                    return
-                }
-            }
+        if (result.type === 'database_error') {
+            writeDatabaseError(log, res, result.error)
+            return
+        }
 
-            // POST /business/:id/reviews
-            if (
-                req.method === 'POST' &&
-                /\/business\/[a-zA-Z0-9]+\/reviews$/.test(url.pathname)
-            ) {
-                const [, , id, ,] = url.pathname.split('/')
-                if (id) {
-                    await postReviewHandler(req, res, id)
-                    return
-                }
-            }
+        if (result.type === 'success') {
+            log.info('Deleted business', { business_id: businessId })
+            res.writeHead(204)
+            res.end()
+            return
         }
 
-        writeNotFoundError(
-            res,
-            new Error(`No route for ${req.method} ${req.url}`)
-        )
+        assertNever(result)
     }
 
-    const server = http.createServer((req, res) => {
-        mainHandler(req, res).catch((err) => {
-            log('error', err)
-            res.writeHead(500, { 'Content-Type': 'text/plain' })
-            res.end('Internal server error')
-        })
-    })
+    // postBusinessHandler creates either an online or a physical business, depending on the "type"
+    // property of the body. It returns the created record along with its generated id.
+    async function postBusinessHandler(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        log: core.Logger
+    ): Promise<void> {
+        if (!(await authorize(req, res, log, 'business:write'))) return
 
-    server.listen(config.port, () => {
-        log('info', `Server running at http://localhost:${config.port}`)
-    })
+        const jsonData = await readJson(req, res)
+        if (jsonData === undefined) return
+        const parseResult = createBusinessJson.safeParse(jsonData)
+        if (!parseResult.success) {
+            writeValidationError(res, parseResult.error)
+            return
+        }
 
-    // This allows us to keep track of all incoming connections, so we can close them when the
-    // server is stopped.
-    const sockets = new Set<net.Socket>()
-    server.on('connection', (socket) => {
-        sockets.add(socket)
-        socket.on('close', () => {
-            sockets.delete(socket)
-        })
-    })
+        const result = await createBusiness(parseResult.data, db, log)
+        if (result.type === 'invalid') {
+            writeValidationError(res, result.error)
+            return
+        }
 
-    function stopServer(): Promise<void> {
-        return new Promise((resolve, reject) => {
-            // Destroy all sockets, so that we can gracefully close the server.
-            // Note that the stop functionality is useful for use only for our integration tests.
-            for (const socket of sockets) {
-                socket.destroy()
-            }
+        if (result.type === 'database_error') {
+            writeDatabaseError(log, res, result.error)
+            return
+        }
 
-            server.close((err) => {
-                if (err) {
-                    reject(err)
-                } else {
-                    resolve()
-                }
+        if (result.type === 'success') {
+            const business = result.value
+            writeJson(res, businessResponse(business), 201, {
+                ETag: businessETag(business),
             })
-        })
+            return
+        }
+
+        assertNever(result)
     }
 
-    return { stop: stopServer }
-}
+    async function postReviewHandler(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        log: core.Logger,
+        businessId: core.BusinessId
+    ): Promise<void> {
+        // The review is posted in the name of the requester
+        const identity = await authorize(req, res, log, 'reviews:write')
+        if (identity === undefined) return
+        if (!(await rateLimit(req, res, log, 'createReview', identity))) return
+
+        const jsonData = await readJson(req, res)
+        if (jsonData === undefined) return
+        const parseResult = postReviewJson.safeParse(jsonData)
+        if (!parseResult.success) {
+            writeValidationError(res, parseResult.error)
+            return
+        }
+
+        const input = { ...parseResult.data, username: identity.name }
+
+        const invalid =
+            validateReviewText(input.text) ?? validateRating(input.rating)
+        if (invalid) {
+            writeValidationError(res, invalid)
+            return
+        }
+
+        const clientIp = req.socket.remoteAddress
+        const detection = await detector({
+            ...input,
+            business_id: businessId,
+            client_ip: clientIp,
+            creation_date: new Date(),
+        })
+        if (detection instanceof Error) {
+            writeDatabaseError(log, res, detection)
+            return
+        }
+
+        const reviewResult = await db.createReview(businessId, {
+            ...input,
+            client_ip: clientIp,
+            detection,
+        })
+        if (reviewResult.type === 'record_not_found') {
+            writeNotFoundError(
+                res,
+                new Error(`Business with id ${businessId} not found`)
+            )
+            return
+        }
+
+        if (reviewResult.type === 'database_error') {
+            writeDatabaseError(log, res, reviewResult.error)
+            return
+        }
+
+        if (reviewResult.type === 'success') {
+            if (detection.flagged) {
+                log.warn('Flagged review', {
+                    business_id: businessId,
+                    review_id: reviewResult.value.id,
+                    fake_score: detection.score,
+                    fake_reasons: detection.reasons,
+                })
+            }
+
+            log.info('Created review', {
+                business_id: businessId,
+                review_id: reviewResult.value.id,
+            })
+            reviewsCreated.inc({ status: reviewResult.value.status })
+            writeJson(res, reviewResponse(reviewResult.value), 201)
+            return
+        }
+
+        assertNever(reviewResult)
+    }
+
+    // Checks that the requester may change the review. If it may not, the error response is
+    // written and undefined is returned.
+    async function authorizeReviewChange(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        log: core.Logger,
+        businessId: core.BusinessId,
+        reviewId: core.ReviewId
+    ): Promise<core.Review | undefined> {
+        const identity = await authorize(req, res, log, 'reviews:write')
+        if (identity === undefined) return
+
+        const result = await db.getReview(businessId, reviewId)
+        if (result.type === 'record_not_found') {
+            writeNotFoundError(
+                res,
+                new Error(`Review with id ${reviewId} not found`)
+            )
+            return
+        }
+
+        if (result.type === 'database_error') {
+            writeDatabaseError(log, res, result.error)
+            return
+        }
+
+        const review = result.value
+        if (!hasScope(identity, 'admin') && identity.name !== review.username) {
+            writeForbiddenError(
+                res,
+                new Error('Only the author of a review can change it')
+            )
+            return
+        }
+
+        return review
+    }
+
+    // patchReviewHandler lets the author of a review (or an admin) fix its text or rating. The
+    // aggregates of the business are updated accordingly.
+    async function patchReviewHandler(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        log: core.Logger,
+        businessId: core.BusinessId,
+        reviewId: core.ReviewId
+    ): Promise<void> {
+        // Like deleteReviewHandler, the requester is checked before the body is even read
+        const review = await authorizeReviewChange(
+            req,
+            res,
+            log,
+            businessId,
+            reviewId
+        )
+        if (review === undefined) return
+
+        const jsonData = await readJson(req, res)
+        if (jsonData === undefined) return
+        const parseResult = patchReviewJson.safeParse(jsonData)
+        if (!parseResult.success) {
+            writeValidationError(res, parseResult.error)
+            return
+        }
+
+        const input = parseResult.data
+        const invalid =
+            (input.text === undefined
+                ? undefined
+                : validateReviewText(input.text)) ??
+            (input.rating === undefined
+                ? undefined
+                : validateRating(input.rating))
+        if (invalid) {
+            writeValidationError(res, invalid)
+            return
+        }
+
+        const result = await db.updateReview(businessId, reviewId, input)
+        if (result.type === 'record_not_found') {
+            writeNotFoundError(
+                res,
+                new Error(`Review with id ${reviewId} not found`)
+            )
+            return
+        }
+
+        if (result.type === 'database_error') {
+            writeDatabaseError(log, res, result.error)
+            return
+        }
+
+        if (result.type === 'success') {
+            log.info('Updated review', {
+                business_id: businessId,
+                review_id: reviewId,
+            })
+            writeJson(res, reviewResponse(result.value))
+            return
+        }
+
+        assertNever(result)
+    }
+
+    // deleteReviewHandler withdraws a review, with the same permissions as patchReviewHandler
+    async function deleteReviewHandler(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        log: core.Logger,
+        businessId: core.BusinessId,
+        reviewId: core.ReviewId
+    ): Promise<void> {
+        const review = await authorizeReviewChange(
+            req,
+            res,
+            log,
+            businessId,
+            reviewId
+        )
+        if (review === undefined) return
+
+        const result = await db.deleteReview(businessId, reviewId)
+        if (result.type === 'record_not_found') {
+            writeNotFoundError(
+                res,
+                new Error(`Review with id ${reviewId} not found`)
+            )
+            return
+        }
+
+        if (result.type === 'database_error') {
+            writeDatabaseError(log, res, result.error)
+            return
+        }
+
+        if (result.type === 'success') {
+            log.info('Deleted review', {
+                business_id: businessId,
+                review_id: reviewId,
+            })
+            res.writeHead(204)
+            res.end()
+            return
+        }
+
+        assertNever(result)
+    }
+
+    // reportReviewHandler lets anyone report a review, which puts it in the "reported" moderation
+    // queue. The review stays where it is until an admin decides otherwise.
+    async function reportReviewHandler(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        log: core.Logger,
+        businessId: core.BusinessId,
+        reviewId: core.ReviewId
+    ): Promise<void> {
+        if (!(await rateLimit(req, res, log, 'reportReview'))) return
+
+        const jsonData = await readJson(req, res)
+        if (jsonData === undefined) return
+        const parseResult = reportReviewJson.safeParse(jsonData)
+        if (!parseResult.success) {
+            writeValidationError(res, parseResult.error)
+            return
+        }
+
+        const result = await db.reportReview(
+            businessId,
+            reviewId,
+            parseResult.data.reason
+        )
+        if (result.type === 'record_not_found') {
+            writeNotFoundError(
+                res,
+                new Error(`Review with id ${reviewId} not found`)
+            )
+            return
+        }
+
+        if (result.type === 'database_error') {
+            writeDatabaseError(log, res, result.error)
+            return
+        }
+
+        if (result.type === 'success') {
+            log.info('Reported review', {
+                business_id: businessId,
+                review_id: reviewId,
+            })
+            res.writeHead(204)
+            res.end()
+            return
+        }
+
+        assertNever(result)
+    }
+
+    // moderateReviewHandler approves or rejects a review. Approved reviews count in the aggregates
+    // of the business, so they change when a review gets in or out of that status.
+    async function moderateReviewHandler(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        log: core.Logger,
+        businessId: core.BusinessId,
+        reviewId: core.ReviewId,
+        status: core.ModerationDecision['status']
+    ): Promise<void> {
+        if (!(await authorize(req, res, log, 'admin'))) return
+
+        const jsonData = await readJson(req, res)
+        if (jsonData === undefined) return
+        const parseResult = moderateReviewJson.safeParse(jsonData)
+        if (!parseResult.success) {
+            writeValidationError(res, parseResult.error)
+            return
+        }
+
+        const result = await db.moderateReview(businessId, reviewId, {
+            status,
+            reason: parseResult.data.reason,
+        })
+        if (result.type === 'record_not_found') {
+            writeNotFoundError(
+                res,
+                new Error(`Review with id ${reviewId} not found`)
+            )
+            return
+        }
+
+        if (result.type === 'database_error') {
+            writeDatabaseError(log, res, result.error)
+            return
+        }
+
+        if (result.type === 'success') {
+            log.info('Moderated review', {
+                business_id: businessId,
+                review_id: reviewId,
+                status,
+            })
+            if (status === 'rejected') reviewsRejected.inc()
+            writeJson(res, result.value)
+            return
+        }
+
+        assertNever(result)
+    }
+
+    // saveReplyHandler creates (POST) or edits (PATCH) the reply of the business to a review.
+    // There are no business accounts yet, so whoever has the business:write scope replies on behalf
+    // of the business.
+    async function saveReplyHandler(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        log: core.Logger,
+        businessId: core.BusinessId,
+        reviewId: core.ReviewId,
+        creating: boolean
+    ): Promise<void> {
+        if (!(await authorize(req, res, log, 'business:write'))) return
+
+        const jsonData = await readJson(req, res)
+        if (jsonData === undefined) return
+        const parseResult = replyJson.safeParse(jsonData)
+        if (!parseResult.success) {
+            writeValidationError(res, parseResult.error)
+            return
+        }
+
+        const { text } = parseResult.data
+        const invalid = validateReplyText(text)
+        if (invalid) {
+            writeValidationError(res, invalid)
+            return
+        }
+
+        const result = await db.replyToReview(businessId, reviewId, text, {
+            mode: creating ? 'create' : 'update',
+        })
+        if (result.type === 'record_not_found') {
+            writeNotFoundError(
+                res,
+                new Error(`Review with id ${reviewId} not found`)
+            )
+            return
+        }
+
+        if (result.type === 'reply_exists') {
+            writeConflictError(
+                res,
+                new Error('The review already has a reply, edit it instead')
+            )
+            return
+        }
+
+        if (result.type === 'reply_not_found') {
+            writeNotFoundError(
+                res,
+                new Error(`Review with id ${reviewId} has no reply`)
+            )
+            return
+        }
+
+        if (result.type === 'database_error') {
+            writeDatabaseError(log, res, result.error)
+            return
+        }
+
+        if (result.type === 'success') {
+            log.info('Replied to review', {
+                business_id: businessId,
+                review_id: reviewId,
+            })
+            writeJson(res, reviewResponse(result.value), creating ? 201 : 200)
+            return
+        }
+
+        assertNever(result)
+    }
+
+    // deleteReplyHandler removes the reply of the business to a review
+    async function deleteReplyHandler(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        log: core.Logger,
+        businessId: core.BusinessId,
+        reviewId: core.ReviewId
+    ): Promise<void> {
+        if (!(await authorize(req, res, log, 'business:write'))) return
+
+        const result = await db.replyToReview(businessId, reviewId, null, {
+            mode: 'update',
+        })
+        if (result.type === 'record_not_found') {
+            writeNotFoundError(
+                res,
+                new Error(`Review with id ${reviewId} not found`)
+            )
+            return
+        }
+
+        // Already deleted, maybe by a concurrent request
+        if (result.type === 'reply_not_found') {
+            writeNotFoundError(
+                res,
+                new Error(`Review with id ${reviewId} has no reply`)
+            )
+            return
+        }
+
+        // Only "create" writes find a reply in the way
+        if (result.type === 'reply_exists') {
+            throw new Error('unexpected reply_exists for a deletion')
+        }
+
+        if (result.type === 'database_error') {
+            writeDatabaseError(log, res, result.error)
+            return
+        }
+
+        if (result.type === 'success') {
+            log.info('Deleted reply', {
+                business_id: businessId,
+                review_id: reviewId,
+            })
+            res.writeHead(204)
+            res.end()
+            return
+        }
+
+        assertNever(result)
+    }
+
+    // moderationQueueHandler lists the reviews waiting for an admin, oldest first. There's no
+    // pagination, moderated reviews leave the queue so the next call returns the following ones.
+    async function moderationQueueHandler(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        log: core.Logger,
+        url: URL
+    ): Promise<void> {
+        if (!(await authorize(req, res, log, 'admin'))) return
+
+        const parseResult = moderationQueueQuery.safeParse(
+            Object.fromEntries(url.searchParams)
+        )
+        if (!parseResult.success) {
+            writeValidationError(res, parseResult.error)
+            return
+        }
+
+        const { queue, limit } = parseResult.data
+        const result = await db.listModerationQueue(queue, limit)
+        if (result.type === 'database_error') {
+            writeDatabaseError(log, res, result.error)
+            return
+        }
+
+        if (result.type === 'success') {
+            writeJson(res, { reviews: result.value })
+            return
+        }
+
+        assertNever(result)
+    }
+
+    // listReviewsHandler returns a page of reviews of a business. The "next_cursor" of the response
+    // has to be passed as the "cursor" query param in order to get the following page.
+    async function listReviewsHandler(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        log: core.Logger,
+        url: URL,
+        businessId: core.BusinessId
+    ): Promise<void> {
+        const parseResult = listReviewsQuery.safeParse(
+            Object.fromEntries(url.searchParams)
+        )
+        if (!parseResult.success) {
+            writeValidationError(res, parseResult.error)
+            return
+        }
+
+        const { cursor, ...query } = parseResult.data
+
+        let after: core.ReviewCursor | undefined
+        if (cursor !== undefined) {
+            after = decodeCursor(reviewCursorJson, cursor)
+            if (after === undefined) {
+                writeBadRequestError(res, new Error('Invalid cursor provided'))
+                return
+            }
+        }
+
+        const result = await db.listReviews(businessId, { ...query, after })
+        if (result.type === 'record_not_found') {
+            writeNotFoundError(
+                res,
+                new Error(`Business with id ${businessId} not found`)
+            )
+            return
+        }
+
+        if (result.type === 'database_error') {
+            writeDatabaseError(log, res, result.error)
+            return
+        }
+
+        if (result.type === 'success') {
+            const { reviews, next } = result.value
+            writeJson(res, {
+                reviews: reviews.map(reviewResponse),
+                next_cursor: next === null ? null : encodeCursor(next),
+            })
+            return
+        }
+
+        assertNever(result)
+    }
+
+    // listBusinessesHandler is the business directory. It works the same way as listReviewsHandler
+    // regarding the pagination.
+    async function listBusinessesHandler(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        log: core.Logger,
+        url: URL
+    ): Promise<void> {
+        const parseResult = listBusinessesQuery.safeParse(
+            Object.fromEntries(url.searchParams)
+        )
+        if (!parseResult.success) {
+            writeValidationError(res, parseResult.error)
+            return
+        }
+
+        const { cursor, ...query } = parseResult.data
+
+        let after: core.BusinessCursor | undefined
+        if (cursor !== undefined) {
+            after = decodeCursor(businessCursorJson, cursor)
+
+            // A cursor of a listing with another sorting does not make sense
+            const expectedType = query.sort === 'name' ? 'string' : 'number'
+            if (after === undefined || typeof after.value !== expectedType) {
+                writeBadRequestError(res, new Error('Invalid cursor provided'))
+                return
+            }
+        }
+
+        const result = await db.listBusinesses({ ...query, after })
+        if (result.type === 'database_error') {
+            writeDatabaseError(log, res, result.error)
+            return
+        }
+
+        if (result.type === 'success') {
+            const { businesses, next } = result.value
+            writeJson(res, {
+                businesses: businesses.map(businessResponse),
+                next_cursor: next === null ? null : encodeCursor(next),
+            })
+            return
+        }
+
+        assertNever(result)
+    }
+
+    // createApiKeyHandler creates the key of a service client. The key is only sent in this
+    // response, afterwards there's no way to get it back.
+    async function createApiKeyHandler(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        log: core.Logger
+    ): Promise<void> {
+        if (!(await authorize(req, res, log, 'admin'))) return
+
+        const jsonData = await readJson(req, res)
+        if (jsonData === undefined) return
+        const parseResult = createApiKeyJson.safeParse(jsonData)
+        if (!parseResult.success) {
+            writeValidationError(res, parseResult.error)
+            return
+        }
+
+        const key = generateApiKey()
+        const result = await apiKeys.createApiKey({
+            ...parseResult.data,
+            key_hash: hashApiKey(key),
+        })
+        if (result.type === 'database_error') {
+            writeDatabaseError(log, res, result.error)
+            return
+        }
+
+        if (result.type === 'success') {
+            log.info('Created API key', {
+                api_key_id: result.value.id,
+                scopes: result.value.scopes,
+            })
+            writeJson(res, { ...apiKeyResponse(result.value), key }, 201)
+            return
+        }
+
+        assertNever(result)
+    }
+
+    async function listApiKeysHandler(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        log: core.Logger
+    ): Promise<void> {
+        if (!(await authorize(req, res, log, 'admin'))) return
+
+        const result = await apiKeys.listApiKeys()
+        if (result.type === 'database_error') {
+            writeDatabaseError(log, res, result.error)
+            return
+        }
+
+        if (result.type === 'success') {
+            writeJson(res, { api_keys: result.value.map(apiKeyResponse) })
+            return
+        }
+
+        assertNever(result)
+    }
+
+    // revokeApiKeyHandler makes the key unusable from the next request on. The key is kept, so
+    // the listing still tells who had it.
+    async function revokeApiKeyHandler(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        log: core.Logger,
+        apiKeyId: core.ApiKeyId
+    ): Promise<void> {
+        if (!(await authorize(req, res, log, 'admin'))) return
+
+        const result = await apiKeys.revokeApiKey(apiKeyId)
+        if (result.type === 'record_not_found') {
+            writeNotFoundError(
+                res,
+                new Error(`API key with id ${apiKeyId} not found`)
+            )
+            return
+        }
+
+        if (result.type === 'database_error') {
+            writeDatabaseError(log, res, result.error)
+            return
+        }
+
+        if (result.type === 'success') {
+            log.info('Revoked API key', { api_key_id: apiKeyId })
+            res.writeHead(204)
+            res.end()
+            return
+        }
+
+        assertNever(result)
+    }
+
+    // createTokenHandler signs a bearer token for an end user. It's meant for the service that
+    // logs the users in, which calls it with an admin API key.
+    async function createTokenHandler(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        log: core.Logger
+    ): Promise<void> {
+        if (!(await authorize(req, res, log, 'admin'))) return
+
+        const secret = config.auth.tokenSecret
+        if (secret === undefined) {
+            writeApiError(
+                res,
+                'service_unavailable',
+                'Bearer tokens are not enabled on this server'
+            )
+            return
+        }
+
+        const jsonData = await readJson(req, res)
+        if (jsonData === undefined) return
+        const parseResult = createTokenJson.safeParse(jsonData)
+        if (!parseResult.success) {
+            writeValidationError(res, parseResult.error)
+            return
+        }
+
+        const { username, scopes, expires_in_seconds } = parseResult.data
+        const exp =
+            Math.floor(Date.now() / 1000) +
+            (expires_in_seconds ?? config.auth.tokenTtlSeconds)
+        const token = signToken({ sub: username, scopes, exp }, secret)
+
+        log.info('Created token', { username, scopes })
+        writeJson(res, { token, expires_at: new Date(exp * 1000) }, 201)
+    }
+
+    function writeShuttingDown(res: http.ServerResponse) {
+        writeApiError(res, 'service_unavailable', 'The server is not ready', [
+            { field: 'server', message: 'The server is shutting down' },
+        ])
+    }
+
+    // The server is ready when its database answers in time
+    async function readinessHandler(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        log: core.Logger
+    ) {
+        // Load balancers stop sending requests once this fails, so it fails right away
+        // without waiting for the database, which may be closing too
+        if (shuttingDown) {
+            writeShuttingDown(res)
+            return
+        }
+
+        let timer: NodeJS.Timeout | undefined
+        const timeout = new Promise<{ type: 'timeout' }>((resolve) => {
+            timer = setTimeout(
+                () => resolve({ type: 'timeout' }),
+                readinessTimeoutMs
+            )
+        })
+        const result = await Promise.race([db.ping(), timeout])
+        clearTimeout(timer)
+
+        // The shutdown may have started while pinging
+        if (shuttingDown) {
+            writeShuttingDown(res)
+            return
+        }
+
+        if (result.type === 'success') {
+            writeJson(res, { status: 'ok' })
+            return
+        }
+
+        const message =
+            result.type === 'timeout'
+                ? `The database did not answer in ${readinessTimeoutMs}ms`
+                : 'The database is unavailable'
+        if (result.type === 'database_error') {
+            log.warn('Readiness check failed', { error: result.error })
+        }
+        writeApiError(res, 'service_unavailable', 'The server is not ready', [
+            { field: 'database', message },
+        ])
+    }
+
+    const router = createRouter<RequestContext>()
+
+    router.add('POST', '/business', (req, res, params, ctx) =>
+        postBusinessHandler(req, res, ctx.log)
+    )
+    router.add('GET', '/business', (req, res, params, ctx) =>
+        listBusinessesHandler(req, res, ctx.log, ctx.url)
+    )
+    router.add('GET', '/business/:id', (req, res, { id }, ctx) =>
+        getBusinessHandler(req, res, ctx.log, id)
+    )
+    router.add('PATCH', '/business/:id', (req, res, { id }, ctx) =>
+        patchBusinessHandler(req, res, ctx.log, id)
+    )
+    router.add('DELETE', '/business/:id', (req, res, { id }, ctx) =>
+        deleteBusinessHandler(req, res, ctx.log, id)
+    )
+
+    router.add('GET', '/business/:id/reviews', (req, res, { id }, ctx) =>
+        listReviewsHandler(req, res, ctx.log, ctx.url, id)
+    )
+    router.add('POST', '/business/:id/reviews', (req, res, { id }, ctx) =>
+        postReviewHandler(req, res, ctx.log, id)
+    )
+    router.add(
+        'PATCH',
+        '/business/:id/reviews/:reviewId',
+        (req, res, { id, reviewId }, ctx) =>
+            patchReviewHandler(req, res, ctx.log, id, reviewId)
+    )
+    router.add(
+        'DELETE',
+        '/business/:id/reviews/:reviewId',
+        (req, res, { id, reviewId }, ctx) =>
+            deleteReviewHandler(req, res, ctx.log, id, reviewId)
+    )
+    router.add(
+        'POST',
+        '/business/:id/reviews/:reviewId/report',
+        (req, res, { id, reviewId }, ctx) =>
+            reportReviewHandler(req, res, ctx.log, id, reviewId)
+    )
+
+    router.add(
+        'POST',
+        '/business/:id/reviews/:reviewId/reply',
+        (req, res, { id, reviewId }, ctx) =>
+            saveReplyHandler(req, res, ctx.log, id, reviewId, true)
+    )
+    router.add(
+        'PATCH',
+        '/business/:id/reviews/:reviewId/reply',
+        (req, res, { id, reviewId }, ctx) =>
+            saveReplyHandler(req, res, ctx.log, id, reviewId, false)
+    )
+    router.add(
+        'DELETE',
+        '/business/:id/reviews/:reviewId/reply',
+        (req, res, { id, reviewId }, ctx) =>
+            deleteReplyHandler(req, res, ctx.log, id, reviewId)
+    )
+
+    router.add('GET', '/admin/reviews', (req, res, params, ctx) =>
+        moderationQueueHandler(req, res, ctx.log, ctx.url)
+    )
+    router.add(
+        'POST',
+        '/admin/business/:id/reviews/:reviewId/approve',
+        (req, res, { id, reviewId }, ctx) =>
+            moderateReviewHandler(req, res, ctx.log, id, reviewId, 'approved')
+    )
+    router.add(
+        'POST',
+        '/admin/business/:id/reviews/:reviewId/reject',
+        (req, res, { id, reviewId }, ctx) =>
+            moderateReviewHandler(req, res, ctx.log, id, reviewId, 'rejected')
+    )
+
+    router.add('POST', '/admin/api-keys', (req, res, params, ctx) =>
+        createApiKeyHandler(req, res, ctx.log)
+    )
+    router.add('GET', '/admin/api-keys', (req, res, params, ctx) =>
+        listApiKeysHandler(req, res, ctx.log)
+    )
+    router.add('DELETE', '/admin/api-keys/:id', (req, res, { id }, ctx) =>
+        revokeApiKeyHandler(req, res, ctx.log, id)
+    )
+    router.add('POST', '/admin/tokens', (req, res, params, ctx) =>
+        createTokenHandler(req, res, ctx.log)
+    )
+
+    router.add('GET', '/healthz', async (req, res) =>
+        writeJson(res, { status: 'ok' })
+    )
+    router.add('GET', '/readyz', (req, res, params, ctx) =>
+        readinessHandler(req, res, ctx.log)
+    )
+    router.add('GET', '/metrics', async (req, res) => {
+        const body = metrics.render()
+        res.writeHead(200, {
+            'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+            'Content-Length': Buffer.byteLength(body),
+        })
+        res.end(body)
+    })
+
+    const openApiDocument = createOpenApiDocument()
+    router.add('GET', '/openapi.json', async (req, res) =>
+        writeJson(res, openApiDocument)
+    )
+
+    // The routes and the OpenAPI document must tell the same, better to not start at all
+    // if not. The statuses and the bodies of the responses are checked by the integration tests.
+    const routeKeys = router.routes().map((r) => `${r.method} ${r.path}`)
+    const documentedKeys = apiOperations.map((op) => `${op.method} ${op.path}`)
+    const undocumented = routeKeys.filter((k) => !documentedKeys.includes(k))
+    const unrouted = documentedKeys.filter((k) => !routeKeys.includes(k))
+    if (undocumented.length > 0 || unrouted.length > 0) {
+        throw new Error(
+            `The OpenAPI document is out of date, undocumented routes: [${undocumented.join(
+                ', '
+            )}], documented routes that don't exist: [${unrouted.join(', ')}]`
+        )
+    }
+
+    // Runs the handler of a POST request once per Idempotency-Key. The key is claimed when the
+    // handler reads the body, which it does once the requester is authenticated and not rate
+    // limited, and the payload is part of the fingerprint. The repeats of the request get the
+    // first response again, without running the rest of the handler.
+    async function handleIdempotently(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        ctx: RequestContext,
+        handle: () => Promise<void>
+    ): Promise<void> {
+        const idempotencyKey = req.headers['idempotency-key']
+        if (typeof idempotencyKey !== 'string') {
+            await handle()
+            return
+        }
+        if (!idempotencyKeyPattern.test(idempotencyKey)) {
+            writeBadRequestError(
+                res,
+                new Error(
+                    'The Idempotency-Key must have up to 255 visible ascii characters'
+                )
+            )
+            return
+        }
+
+        const idempotent: IdempotentRequest = {
+            key: `${idempotencyScope(req)}:${idempotencyKey}`,
+            ctx,
+            claimed: false,
+        }
+        idempotentRequests.set(req, idempotent)
+
+        const sentBody = captureResponseBody(res)
+        try {
+            await handle()
+        } finally {
+            // Neither are the requests that failed without a response kept
+            if (idempotent.claimed) {
+                const status = res.statusCode
+                const result =
+                    res.writableEnded && isReplayable(status)
+                        ? await idempotency.saveIdempotentResponse(
+                              idempotent.key,
+                              {
+                                  status,
+                                  headers: replayableHeaders(res),
+                                  body: sentBody(),
+                              },
+                              new Date(Date.now() + config.idempotency.ttlMs)
+                          )
+                        : await idempotency.releaseIdempotencyKey(
+                              idempotent.key
+                          )
+                if (result.type === 'database_error') {
+                    ctx.log.error('Could not store the idempotent response', {
+                        error: result.error,
+                    })
+                }
+            }
+        }
+    }
+
+    // Claims the Idempotency-Key of the request. If the key was used already, the response is
+    // written and false is returned.
+    async function claimIdempotencyKey(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        idempotent: IdempotentRequest,
+        body: unknown
+    ): Promise<boolean> {
+        const { key, ctx } = idempotent
+        const fingerprint = crypto
+            .createHash('sha256')
+            .update(
+                `${req.method} ${ctx.url.pathname}\n${JSON.stringify(body)}`
+            )
+            .digest('hex')
+        const now = new Date()
+        const claim = await idempotency.claimIdempotencyKey(
+            {
+                key,
+                fingerprint,
+                response: null,
+                expires_at: new Date(now.getTime() + idempotencyLockMs),
+            },
+            now
+        )
+        if (claim.type === 'database_error') {
+            writeDatabaseError(ctx.log, res, claim.error)
+            return false
+        }
+
+        if (claim.value.type === 'claimed') {
+            idempotent.claimed = true
+            return true
+        }
+
+        const { record } = claim.value
+        if (record.fingerprint !== fingerprint) {
+            writeConflictError(
+                res,
+                new Error(
+                    'The Idempotency-Key was already used for another request'
+                )
+            )
+            return false
+        }
+
+        if (record.response === null) {
+            writeApiError(
+                res,
+                'conflict',
+                'A request with this Idempotency-Key is still being handled',
+                [],
+                { 'Retry-After': '1' }
+            )
+            return false
+        }
+
+        // The headers about this request, like its RateLimit ones, win over the kept ones
+        const { status, headers, body: sentBody } = record.response
+        ctx.log.info('Replayed idempotent response', { status })
+        for (const [name, value] of Object.entries(headers)) {
+            if (!res.hasHeader(name)) res.setHeader(name, value)
+        }
+        res.writeHead(status, {
+            'Content-Length': Buffer.byteLength(sentBody),
+            'Idempotent-Replayed': 'true',
+        })
+        res.end(sentBody)
+        return false
+    }
+
+    async function mainHandler(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        ctx: RequestContext
+    ): Promise<void> {
+        const { url } = ctx
+        const route = router.match(req.method ?? 'GET', url.pathname)
+        if (route.type === 'found') {
+            ctx.route = route.path
+            if (req.method === 'POST') {
+                await handleIdempotently(req, res, ctx, () =>
+                    route.handle(req, res, ctx)
+                )
+            } else {
+                await route.handle(req, res, ctx)
+            }
+            return
+        }
+
+        if (route.type === 'options') {
+            res.writeHead(204, { Allow: route.allowed.join(', ') })
+            res.end()
+            return
+        }
+
+        if (route.type === 'method_not_allowed') {
+            writeMethodNotAllowedError(
+                res,
+                route.allowed,
+                new Error(
+                    `Method ${req.method} not allowed for ${url.pathname}`
+                )
+            )
+            return
+        }
+
+        if (route.type === 'not_found') {
+            writeNotFoundError(
+                res,
+                new Error(`No route for ${req.method} ${req.url}`)
+            )
+            return
+        }
+
+        assertNever(route)
+    }
+
+    const handleRequest = composeMiddlewares(middlewares, mainHandler)
+
+    // The responses being written, which the shutdown waits for
+    const inFlight = new Set<http.ServerResponse>()
+    let shuttingDown = false
+    let stopping: Promise<void> | undefined
+
+    const server = http.createServer((req, res) => {
+        inFlight.add(res)
+        if (shuttingDown) res.setHeader('Connection', 'close')
+
+        const requestId = incomingRequestId(req) ?? crypto.randomUUID()
+        const url = parseRequestUrl(req.url ?? '/')
+        const ctx: RequestContext = {
+            url: url ?? new URL(requestUrlBase),
+            startTime: Date.now(),
+            requestId,
+            log: log.child({ request_id: requestId }),
+            route: undefined,
+        }
+        res.setHeader('X-Request-Id', ctx.requestId)
+
+        // The access log and the metrics, once the response is sent or the client went away
+        res.once('close', () => {
+            inFlight.delete(res)
+            // Its connection may be idle now, so it's closed for the shutdown to go on. That
+            // happens after the response is done with the socket.
+            if (shuttingDown) setImmediate(() => server.closeIdleConnections())
+
+            const durationMs = Date.now() - ctx.startTime
+            ctx.log.info('Request finished', {
+                method: req.method,
+                route: ctx.route ?? null,
+                status: res.statusCode,
+                duration_ms: durationMs,
+                bytes: Number(res.getHeader('Content-Length') ?? 0),
+                completed: res.writableFinished,
+            })
+
+            // Requests that matched no route are counted together, their paths could be anything
+            const labels = {
+                method: req.method ?? 'GET',
+                route: ctx.route ?? 'unmatched',
+                status: String(res.statusCode),
+            }
+            httpRequests.inc(labels)
+            httpDurations.observe(labels, durationMs / 1000)
+        })
+
+        if (url === undefined) {
+            writeBadRequestError(
+                res,
+                new Error('The request target is not valid')
+            )
+            return
+        }
+
+        handleRequest(req, res, ctx).catch((err) => {
+            ctx.log.error('Request failed', { error: err })
+            if (res.headersSent) {
+                res.destroy()
+                return
+            }
+            writeInternalError(res)
+        })
+    })
+
+    server.listen(config.port, () => {
+        log.info('Server running', { url: `http://localhost:${config.port}` })
+    })
+
+    // Waits for the requests in flight to finish, up to the shutdown timeout of the config. The
+    // keep-alive connections are closed as soon as they are idle, and no new ones are accepted.
+    function stopServer(): Promise<void> {
+        stopping ??= new Promise((resolve, reject) => {
+            shuttingDown = true
+            log.info('Shutting down', { requests_in_flight: inFlight.size })
+
+            // The responses not started yet tell the client the connection is closing
+            for (const res of inFlight) {
+                if (!res.headersSent) res.setHeader('Connection', 'close')
+            }
+
+            const deadline = setTimeout(() => {
+                log.warn('Shutdown timeout reached, closing all connections', {
+                    requests_in_flight: inFlight.size,
+                })
+                server.closeAllConnections()
+            }, config.shutdownTimeoutMs)
+
+            server.close((err) => {
+                clearTimeout(deadline)
+                if (err) {
+                    reject(err)
+                } else {
+                    resolve()
+                }
+            })
+            server.closeIdleConnections()
+        })
+
+        return stopping
+    }
+
+    return { stop: stopServer }
+}
+
+async function createStore(config: Config): Promise<core.BusinessRepository> {
+    if (config.store === 'mongodb') return createMongoDbStore(config.mongo)
+    if (config.store === 'sqlite') return createSqliteStore(config.sqlite)
+    if (config.store === 'inmem') return createInMemDb()
+
+    assertNever(config.store)
+}
 
 const nodeEnv = process.env['NODE_ENV']
 
 if (nodeEnv !== 'test') {
-    const devLogger: core.Logger = (lvl, msg) => {
-        console.log(`[${lvl}]: ${msg}`)
+    const configResult = loadConfig()
+    if (configResult.type === 'invalid') {
+        console.error('Fatal error: invalid config')
+        for (const error of configResult.errors) {
+            console.error(`  ${error}`)
+        }
+        process.exit(1)
     }
+    const config = configResult.value
+
+    const logger = createLogger({ level: config.logLevel })
 
     ;(async () => {
-        const store = await createMongoDbStore()
-        startServer(devLogger, store)
+        const store = await createStore(config)
+        // The sqlite store only keeps the businesses, the rest is in memory like with inmem
+        const apiKeys =
+            config.store === 'mongodb'
+                ? await createMongoDbApiKeyStore(config.mongo)
+                : createInMemApiKeyStore()
+        // In mongo the limits are shared by every instance of the server
+        const rateLimits =
+            config.store === 'mongodb'
+                ? await createMongoDbRateLimitStore(config.mongo)
+                : createInMemRateLimitStore()
+        const idempotency =
+            config.store === 'mongodb'
+                ? await createMongoDbIdempotencyStore(config.mongo)
+                : createInMemIdempotencyStore()
+        const startedServer = startServer(config, logger, store, {
+            apiKeys,
+            rateLimits,
+            idempotency,
+        })
+
+        // The first signal shuts down gracefully, a second one doesn't wait for it
+        let stopping = false
+        const shutdown = async (signal: NodeJS.Signals) => {
+            if (stopping) {
+                logger.warn('Exiting without waiting for the shutdown', {
+                    signal,
+                })
+                process.exit(1)
+            }
+            stopping = true
+            logger.info('Received signal', { signal })
+
+            await startedServer.stop()
+            await closeAllConns()
+            closeAllSqliteDbs()
+            logger.info('Shut down')
+            process.exit(0)
+        }
+
+        for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+            process.on(signal, () => {
+                shutdown(signal).catch((err) => {
+                    logger.error('Shutdown failed', { error: err })
+                    process.exit(1)
+                })
+            })
+        }
     })()
 }
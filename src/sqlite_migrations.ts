@@ -0,0 +1,149 @@
+import Database from 'better-sqlite3'
+
+// A change of the schema of the SQLite store. Migrations that were released are never edited,
+// changes go in a new one with the next version.
+export type Migration = {
+    version: number
+    name: string
+    sql: string
+}
+
+export const sqliteMigrations: Migration[] = [
+    {
+        version: 1,
+        name: 'create businesses and reviews',
+        // Like in the mongo store, the business keeps the core.ReviewAggregates of its approved
+        // reviews, and "avg_rating" is derived from them. The dates are in ms since the epoch.
+        sql: `
+            CREATE TABLE businesses (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                type TEXT NOT NULL CHECK (type IN ('online', 'physical')),
+                name TEXT NOT NULL,
+                email TEXT NOT NULL,
+                website TEXT,
+                address TEXT,
+                phone TEXT,
+                total_reviews INTEGER NOT NULL DEFAULT 0,
+                rating_sum INTEGER NOT NULL DEFAULT 0,
+                rating_1 INTEGER NOT NULL DEFAULT 0,
+                rating_2 INTEGER NOT NULL DEFAULT 0,
+                rating_3 INTEGER NOT NULL DEFAULT 0,
+                rating_4 INTEGER NOT NULL DEFAULT 0,
+                rating_5 INTEGER NOT NULL DEFAULT 0,
+                avg_rating REAL NOT NULL DEFAULT 0,
+                version INTEGER NOT NULL DEFAULT 1,
+                CHECK (type = 'physical' OR website IS NOT NULL),
+                CHECK (type = 'online' OR (address IS NOT NULL AND phone IS NOT NULL))
+            );
+
+            -- AUTOINCREMENT never reuses the ids of deleted reviews, so the id is the seq of the
+            -- review too
+            CREATE TABLE reviews (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                business_id INTEGER NOT NULL
+                    REFERENCES businesses (id) ON DELETE CASCADE,
+                text TEXT NOT NULL,
+                rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 5),
+                username TEXT NOT NULL,
+                creation_date INTEGER NOT NULL,
+                status TEXT NOT NULL
+                    CHECK (status IN ('pending', 'approved', 'rejected')),
+                moderation_reason TEXT,
+                fake_score REAL NOT NULL,
+                -- a json array of strings
+                fake_reasons TEXT NOT NULL,
+                client_ip TEXT,
+                -- whether the review is in the "reported" moderation queue
+                reported INTEGER NOT NULL DEFAULT 0,
+                reply_text TEXT,
+                reply_creation_date INTEGER,
+                reply_update_date INTEGER
+            );
+
+            CREATE TABLE review_reports (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                review_id INTEGER NOT NULL
+                    REFERENCES reviews (id) ON DELETE CASCADE,
+                reason TEXT NOT NULL,
+                creation_date INTEGER NOT NULL
+            );
+        `,
+    },
+    {
+        version: 2,
+        name: 'index the listings and the moderation queues',
+        sql: `
+            CREATE INDEX businesses_by_rating ON businesses (avg_rating DESC, id);
+            CREATE INDEX businesses_by_reviews ON businesses (total_reviews DESC, id);
+            CREATE INDEX businesses_by_name ON businesses (name COLLATE NOCASE, id);
+
+            CREATE INDEX reviews_by_business ON reviews (business_id, id DESC);
+            CREATE INDEX reviews_by_rating ON reviews (business_id, rating DESC, id DESC);
+            CREATE INDEX reviews_latest ON reviews (business_id, status, id DESC);
+            -- these two are for the fake review detection
+            CREATE INDEX reviews_by_username ON reviews (business_id, username);
+            CREATE INDEX reviews_by_client_ip ON reviews (client_ip, creation_date DESC);
+            -- and these for the moderation queues
+            CREATE INDEX reviews_pending ON reviews (status, id);
+            CREATE INDEX reviews_reported ON reviews (reported, id);
+
+            CREATE INDEX review_reports_by_review ON review_reports (review_id, id);
+        `,
+    },
+]
+
+// Applies the migrations the database doesn't have yet, in order, and returns their versions.
+// They all run in one transaction that takes the write lock first, so servers starting at the
+// same time don't apply them twice, and a failing migration leaves the schema as it was.
+export function migrate(
+    db: Database.Database,
+    migrations: Migration[] = sqliteMigrations
+): number[] {
+    const versions = migrations.map((migration) => migration.version)
+    versions.forEach((version, index) => {
+        if (version !== index + 1) {
+            throw new Error(
+                `Migration versions must go 1, 2, 3 and so on, found ${version} at position ${
+                    index + 1
+                }`
+            )
+        }
+    })
+
+    const applyPending = db.transaction(() => {
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS schema_migrations (
+                version INTEGER PRIMARY KEY,
+                name TEXT NOT NULL,
+                applied_at INTEGER NOT NULL
+            )
+        `)
+        const current = db
+            .prepare<[], number>(
+                'SELECT coalesce(max(version), 0) FROM schema_migrations'
+            )
+            .pluck()
+            .get()
+        if (current === undefined) throw new Error('unreachable')
+
+        // An older server must not write to a schema it doesn't know about
+        if (current > migrations.length) {
+            throw new Error(
+                `The database is at schema version ${current}, newer than the ${migrations.length} known here`
+            )
+        }
+
+        const insert = db.prepare<[number, string, number]>(
+            'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)'
+        )
+        const pending = migrations.slice(current)
+        for (const migration of pending) {
+            db.exec(migration.sql)
+            insert.run(migration.version, migration.name, Date.now())
+        }
+
+        return pending.map((migration) => migration.version)
+    })
+
+    return applyPending.immediate()
+}
@@ -0,0 +1,1084 @@
+import Database from 'better-sqlite3'
+
+import * as core from './core'
+import { SqliteConfig } from './config'
+import { migrate } from './sqlite_migrations'
+import { assertNever } from './utils'
+
+function handleSqliteErr(err: unknown) {
+    // Another connection held the lock for longer than the busy timeout, or the file can't be
+    // read or written. Retrying later may work for these.
+    if (
+        err instanceof Database.SqliteError &&
+        /^SQLITE_(BUSY|LOCKED|CANTOPEN|IOERR|FULL)/.test(err.code)
+    ) {
+        const error = new core.DatabaseUnavailableError(err.message, {
+            cause: err,
+        })
+        return { type: 'database_error', error } as const
+    }
+    if (err instanceof Error) {
+        return { type: 'database_error', error: err } as const
+    }
+
+    // Another unexpected error, so just throw up the chain
+    throw err
+}
+
+// The columns that only one type of business has are null for the other one, the schema checks it
+type SqliteBusinessRow = {
+    id: number
+    name: string
+    email: string
+    total_reviews: number
+    rating_sum: number
+    rating_1: number
+    rating_2: number
+    rating_3: number
+    rating_4: number
+    rating_5: number
+    avg_rating: number
+    version: number
+} & (
+    | { type: 'online'; website: string; address: null; phone: null }
+    | { type: 'physical'; website: null; address: string; phone: string }
+)
+
+type SqliteReviewRow = {
+    id: number
+    business_id: number
+    text: string
+    rating: number
+    username: string
+    creation_date: number
+    status: core.ReviewStatus
+    moderation_reason: string | null
+    fake_score: number
+    fake_reasons: string
+    client_ip: string | null
+    reported: number
+    reply_text: string | null
+    reply_creation_date: number | null
+    reply_update_date: number | null
+}
+
+type SqliteReportRow = {
+    review_id: number
+    reason: string
+    creation_date: number
+}
+
+const SqliteBusinessTable = {
+    toAggregates(row: SqliteBusinessRow): core.ReviewAggregates {
+        return {
+            total_reviews: row.total_reviews,
+            rating_sum: row.rating_sum,
+            rating_histogram: {
+                1: row.rating_1,
+                2: row.rating_2,
+                3: row.rating_3,
+                4: row.rating_4,
+                5: row.rating_5,
+            },
+        }
+    },
+    toBusiness(
+        row: SqliteBusinessRow,
+        latestReviews: core.Review[]
+    ): core.Business {
+        const common = {
+            id: row.id.toString(),
+            name: row.name,
+            email: row.email,
+            total_reviews: row.total_reviews,
+            avg_rating: row.avg_rating,
+            rating_histogram:
+                SqliteBusinessTable.toAggregates(row).rating_histogram,
+            latest_reviews: latestReviews,
+            version: row.version,
+        }
+
+        if (row.type === 'online') {
+            return {
+                type: row.type,
+                value: { ...common, website: row.website },
+            }
+        }
+        if (row.type === 'physical') {
+            return {
+                type: row.type,
+                value: { ...common, address: row.address, phone: row.phone },
+            }
+        }
+
+        assertNever(row)
+    },
+}
+
+const SqliteReviewTable = {
+    toReview(row: SqliteReviewRow): core.Review {
+        return {
+            id: row.id.toString(),
+            business_id: row.business_id.toString(),
+            text: row.text,
+            rating: row.rating,
+            username: row.username,
+            creation_date: new Date(row.creation_date),
+            status: row.status,
+            moderation_reason: row.moderation_reason,
+            fake_score: row.fake_score,
+            fake_reasons: JSON.parse(row.fake_reasons) as string[],
+            reply:
+                row.reply_text === null ||
+                row.reply_creation_date === null ||
+                row.reply_update_date === null
+                    ? null
+                    : {
+                          text: row.reply_text,
+                          creation_date: new Date(row.reply_creation_date),
+                          update_date: new Date(row.reply_update_date),
+                      },
+        }
+    },
+}
+
+// A piece of a WHERE clause along with the values of its placeholders
+type SqlFilter = { sql: string; params: (string | number)[] }
+
+// The same orders as MongoReviewListing, the id of a review is its seq
+const SqliteReviewListing = {
+    filterAfter(sort: core.ReviewSort, after: core.ReviewCursor): SqlFilter {
+        const { rating, seq } = after
+        if (sort === 'newest') return { sql: 'id < ?', params: [seq] }
+        if (sort === 'oldest') return { sql: 'id > ?', params: [seq] }
+        if (sort === 'highest') {
+            return {
+                sql: '(rating < ? OR (rating = ? AND id < ?))',
+                params: [rating, rating, seq],
+            }
+        }
+        if (sort === 'lowest') {
+            return {
+                sql: '(rating > ? OR (rating = ? AND id < ?))',
+                params: [rating, rating, seq],
+            }
+        }
+
+        assertNever(sort)
+    },
+    orderBy(sort: core.ReviewSort): string {
+        if (sort === 'newest') return 'id DESC'
+        if (sort === 'oldest') return 'id'
+        if (sort === 'highest') return 'rating DESC, id DESC'
+        if (sort === 'lowest') return 'rating, id DESC'
+
+        assertNever(sort)
+    },
+}
+
+// Names are compared ignoring the case, like the name index does. NOCASE only folds ascii letters.
+const SqliteBusinessListing = {
+    sortColumn(sort: core.BusinessSort) {
+        if (sort === 'name') return 'name COLLATE NOCASE'
+        if (sort === 'rating') return 'avg_rating'
+        if (sort === 'reviews') return 'total_reviews'
+
+        assertNever(sort)
+    },
+    filterAfter(
+        sort: core.BusinessSort,
+        after: core.BusinessCursor,
+        afterId: number
+    ): SqlFilter {
+        const column = SqliteBusinessListing.sortColumn(sort)
+        const operator = sort === 'name' ? '>' : '<'
+
+        return {
+            sql: `(${column} ${operator} ? OR (${column} = ? AND id > ?))`,
+            params: [after.value, after.value, afterId],
+        }
+    },
+    orderBy(sort: core.BusinessSort): string {
+        const column = SqliteBusinessListing.sortColumn(sort)
+        return `${column}${sort === 'name' ? '' : ' DESC'}, id`
+    },
+    cursor(
+        sort: core.BusinessSort,
+        business: core.Business
+    ): core.BusinessCursor {
+        const { id, name, avg_rating, total_reviews } = business.value
+        if (sort === 'name') return { value: name, id }
+        if (sort === 'rating') return { value: avg_rating, id }
+        if (sort === 'reviews') return { value: total_reviews, id }
+
+        assertNever(sort)
+    },
+}
+
+// Only accepts the ids that we hand out, which are the rowids of the tables
+function parseRowId(id: string): number | undefined {
+    if (!/^[1-9][0-9]{0,14}$/.test(id)) return undefined
+
+    return Number(id)
+}
+
+function escapeLike(text: string): string {
+    return text.replace(/[\\%_]/g, '\\$&')
+}
+
+// The columns of the business that updateBusiness may change
+const updatableColumns = [
+    'name',
+    'email',
+    'website',
+    'address',
+    'phone',
+] as const
+
+// Same as closeAllConns of the mongo store
+let openDatabases: Database.Database[] = []
+
+export function closeAllSqliteDbs() {
+    for (const db of openDatabases) {
+        db.close()
+    }
+
+    openDatabases = []
+}
+
+// Opens the database file, bringing its schema up to date
+export function openSqliteDb(sqliteConfig: SqliteConfig): Database.Database {
+    const db = new Database(sqliteConfig.path)
+    openDatabases.push(db)
+
+    // WAL lets the reads go on while a write is in progress, even from other processes
+    db.pragma('journal_mode = WAL')
+    // Deleting a business deletes its reviews and their reports
+    db.pragma('foreign_keys = ON')
+    migrate(db)
+
+    return db
+}
+
+// Every review is a row of "reviews", and the business row keeps the core.ReviewAggregates of
+// its approved reviews. Review writes run in a transaction that takes the write lock before
+// reading the aggregates, so no other write, from this process or another one, gets in between.
+// The latest reviews are not copied into the business, they are read along with it.
+export function createSqliteStore(
+    sqliteConfig: SqliteConfig
+): core.BusinessRepository {
+    const db = openSqliteDb(sqliteConfig)
+
+    const selectBusiness = db.prepare<[number], SqliteBusinessRow>(
+        'SELECT * FROM businesses WHERE id = ?'
+    )
+    const selectReview = db.prepare<[number, number], SqliteReviewRow>(
+        'SELECT * FROM reviews WHERE id = ? AND business_id = ?'
+    )
+    const insertBusiness = db.prepare<
+        {
+            type: core.Business['type']
+            name: string
+            email: string
+            website: string | null
+            address: string | null
+            phone: string | null
+        },
+        SqliteBusinessRow
+    >(
+        `INSERT INTO businesses (type, name, email, website, address, phone)
+        VALUES (@type, @name, @email, @website, @address, @phone)
+        RETURNING *`
+    )
+    const insertReview = db.prepare<
+        Omit<SqliteReviewRow, 'id' | 'reported' | `reply_${string}`>,
+        SqliteReviewRow
+    >(
+        `INSERT INTO reviews (
+            business_id, text, rating, username, creation_date, status, moderation_reason,
+            fake_score, fake_reasons, client_ip
+        ) VALUES (
+            @business_id, @text, @rating, @username, @creation_date, @status, @moderation_reason,
+            @fake_score, @fake_reasons, @client_ip
+        )
+        RETURNING *`
+    )
+    const updateAggregates = db.prepare<
+        [number, number, number, number, number, number, number, number, number]
+    >(
+        `UPDATE businesses SET
+            total_reviews = ?, rating_sum = ?,
+            rating_1 = ?, rating_2 = ?, rating_3 = ?, rating_4 = ?, rating_5 = ?,
+            avg_rating = ?, version = version + 1
+        WHERE id = ?`
+    )
+    const bumpVersion = db.prepare<[number]>(
+        'UPDATE businesses SET version = version + 1 WHERE id = ?'
+    )
+    // The 3 newest approved reviews of every business, newest first
+    const selectLatestReviews = db.prepare<[string], SqliteReviewRow>(
+        `SELECT * FROM (
+            SELECT
+                *,
+                row_number() OVER (PARTITION BY business_id ORDER BY id DESC) AS position
+            FROM reviews
+            WHERE status = 'approved'
+                AND business_id IN (SELECT value FROM json_each(?))
+        )
+        WHERE position <= 3
+        ORDER BY business_id, id DESC`
+    )
+    const selectReports = db.prepare<[string], SqliteReportRow>(
+        `SELECT review_id, reason, creation_date FROM review_reports
+        WHERE review_id IN (SELECT value FROM json_each(?))
+        ORDER BY id`
+    )
+
+    // Runs the function in a transaction that takes the write lock right away, so what it reads
+    // can't change before it writes
+    function inWriteTransaction<T>(fn: () => T): T {
+        return db.transaction(fn).immediate()
+    }
+
+    function toBusinesses(rows: SqliteBusinessRow[]): core.Business[] {
+        const latest = new Map<number, core.Review[]>()
+        const reviewRows = selectLatestReviews.all(
+            JSON.stringify(rows.map((row) => row.id))
+        )
+        for (const reviewRow of reviewRows) {
+            const reviews = latest.get(reviewRow.business_id) ?? []
+            reviews.push(SqliteReviewTable.toReview(reviewRow))
+            latest.set(reviewRow.business_id, reviews)
+        }
+
+        return rows.map((row) =>
+            SqliteBusinessTable.toBusiness(row, latest.get(row.id) ?? [])
+        )
+    }
+
+    function toBusiness(row: SqliteBusinessRow): core.Business {
+        const [business] = toBusinesses([row])
+        if (business === undefined) throw new Error('unreachable')
+
+        return business
+    }
+
+    // Writes the new aggregates, and the average derived out of them, into the business
+    function writeAggregates(
+        businessId: number,
+        aggregates: core.ReviewAggregates
+    ) {
+        const histogram = aggregates.rating_histogram
+        updateAggregates.run(
+            aggregates.total_reviews,
+            aggregates.rating_sum,
+            histogram[1],
+            histogram[2],
+            histogram[3],
+            histogram[4],
+            histogram[5],
+            core.averageRating(aggregates),
+            businessId
+        )
+    }
+
+    // Reads the business and the review that is about to be written, both must exist
+    function findReviewForWrite(businessId: number, reviewId: number) {
+        const business = selectBusiness.get(businessId)
+        const review = selectReview.get(reviewId, businessId)
+        if (business === undefined || review === undefined) {
+            return { type: 'record_not_found' } as const
+        }
+
+        return {
+            type: 'found',
+            aggregates: SqliteBusinessTable.toAggregates(business),
+            review: SqliteReviewTable.toReview(review),
+        } as const
+    }
+
+    // When a conditional write matched nothing, tells whether it was because of the version
+    function findForWrite(id: number, expectedVersion?: number) {
+        const row = selectBusiness.get(id)
+        if (row === undefined) return { type: 'record_not_found' } as const
+        if (expectedVersion !== undefined && row.version !== expectedVersion) {
+            return { type: 'version_mismatch' } as const
+        }
+
+        return { type: 'found', row } as const
+    }
+
+    function createBusiness(data: {
+        type: core.Business['type']
+        name: string
+        email: string
+        website?: string
+        address?: string
+        phone?: string
+    }): core.Business {
+        const row = insertBusiness.get({
+            type: data.type,
+            name: data.name,
+            email: data.email,
+            website: data.website ?? null,
+            address: data.address ?? null,
+            phone: data.phone ?? null,
+        })
+        if (row === undefined) throw new Error('unreachable')
+
+        return SqliteBusinessTable.toBusiness(row, [])
+    }
+
+    return {
+        async ping(): core.RepositoryPingResult {
+            try {
+                db.prepare('SELECT 1').get()
+                return { type: 'success' }
+            } catch (err) {
+                return handleSqliteErr(err)
+            }
+        },
+
+        async createOnlineBusiness(
+            data: core.CreateOnlineBusinessData
+        ): core.RepositoryEditResult<core.OnlineBusiness> {
+            try {
+                const business = createBusiness({ type: 'online', ...data })
+                if (business.type !== 'online') throw new Error('unreachable')
+
+                return { type: 'success', value: business.value }
+            } catch (err) {
+                return handleSqliteErr(err)
+            }
+        },
+
+        async createPhysicalBusiness(
+            data: core.CreatePhysicalBusinessData
+        ): core.RepositoryEditResult<core.PhysicalBusiness> {
+            try {
+                const business = createBusiness({ type: 'physical', ...data })
+                if (business.type !== 'physical') {
+                    throw new Error('unreachable')
+                }
+
+                return { type: 'success', value: business.value }
+            } catch (err) {
+                return handleSqliteErr(err)
+            }
+        },
+
+        async getBusiness(
+            id: core.BusinessId
+        ): core.RepositoryFetchResult<core.Business> {
+            try {
+                const rowId = parseRowId(id)
+                if (rowId === undefined) return { type: 'record_not_found' }
+                const row = selectBusiness.get(rowId)
+                if (row === undefined) return { type: 'record_not_found' }
+
+                return { type: 'success', value: toBusiness(row) }
+            } catch (err) {
+                return handleSqliteErr(err)
+            }
+        },
+
+        async listBusinesses(
+            query: core.ListBusinessesQuery
+        ): core.RepositoryListResult<core.BusinessesPage> {
+            try {
+                const filters: SqlFilter[] = []
+                if (query.type !== undefined) {
+                    filters.push({ sql: 'type = ?', params: [query.type] })
+                }
+                if (query.min_avg_rating !== undefined) {
+                    filters.push({
+                        sql: 'avg_rating >= ?',
+                        params: [query.min_avg_rating],
+                    })
+                }
+                if (query.min_total_reviews !== undefined) {
+                    filters.push({
+                        sql: 'total_reviews >= ?',
+                        params: [query.min_total_reviews],
+                    })
+                }
+                // LIKE ignores the case of ascii letters
+                if (query.name_prefix !== undefined) {
+                    filters.push({
+                        sql: "name LIKE ? ESCAPE '\\'",
+                        params: [`${escapeLike(query.name_prefix)}%`],
+                    })
+                }
+                if (query.name_contains !== undefined) {
+                    filters.push({
+                        sql: "name LIKE ? ESCAPE '\\'",
+                        params: [`%${escapeLike(query.name_contains)}%`],
+                    })
+                }
+                if (query.after !== undefined) {
+                    // A cursor that we didn't hand out points at nothing
+                    const afterId = parseRowId(query.after.id)
+                    if (afterId === undefined) {
+                        return {
+                            type: 'success',
+                            value: { businesses: [], next: null },
+                        }
+                    }
+                    filters.push(
+                        SqliteBusinessListing.filterAfter(
+                            query.sort,
+                            query.after,
+                            afterId
+                        )
+                    )
+                }
+
+                // One more than needed, to know whether there is a next page
+                const where = filters.length
+                    ? `WHERE ${filters
+                          .map((filter) => filter.sql)
+                          .join(' AND ')}`
+                    : ''
+                const rows = db
+                    .prepare<(string | number)[], SqliteBusinessRow>(
+                        `SELECT * FROM businesses ${where}
+                        ORDER BY ${SqliteBusinessListing.orderBy(query.sort)}
+                        LIMIT ?`
+                    )
+                    .all(
+                        ...filters.flatMap((filter) => filter.params),
+                        query.limit + 1
+                    )
+
+                const listed = toBusinesses(rows)
+                const page = listed.slice(0, query.limit)
+                const last = page[page.length - 1]
+
+                let next: core.BusinessCursor | null = null
+                if (listed.length > query.limit && last) {
+                    next = SqliteBusinessListing.cursor(query.sort, last)
+                }
+
+                return { type: 'success', value: { businesses: page, next } }
+            } catch (err) {
+                return handleSqliteErr(err)
+            }
+        },
+
+        async updateBusiness(
+            id: core.BusinessId,
+            data: core.UpdateBusinessData,
+            expectedVersion?: number
+        ): core.RepositoryWriteResult<core.Business> {
+            try {
+                const rowId = parseRowId(id)
+                if (rowId === undefined) return { type: 'record_not_found' }
+
+                const columns = updatableColumns.filter(
+                    (column) => data[column] !== undefined
+                )
+                const update = db.prepare<(string | number)[]>(
+                    `UPDATE businesses SET ${columns
+                        .map((column) => `${column} = ?, `)
+                        .join('')}version = version + 1
+                    WHERE id = ?`
+                )
+
+                return inWriteTransaction(() => {
+                    const found = findForWrite(rowId, expectedVersion)
+                    if (found.type !== 'found') return found
+
+                    update.run(
+                        ...columns.map((column) => data[column] ?? ''),
+                        rowId
+                    )
+                    const updated = selectBusiness.get(rowId)
+                    if (updated === undefined) throw new Error('unreachable')
+
+                    return { type: 'success', value: toBusiness(updated) }
+                })
+            } catch (err) {
+                return handleSqliteErr(err)
+            }
+        },
+
+        async deleteBusiness(
+            id: core.BusinessId,
+            expectedVersion?: number
+        ): core.RepositoryWriteResult<core.Business> {
+            try {
+                const rowId = parseRowId(id)
+                if (rowId === undefined) return { type: 'record_not_found' }
+
+                return inWriteTransaction(() => {
+                    const found = findForWrite(rowId, expectedVersion)
+                    if (found.type !== 'found') return found
+
+                    const business = toBusiness(found.row)
+                    db.prepare('DELETE FROM businesses WHERE id = ?').run(rowId)
+
+                    return { type: 'success', value: business }
+                })
+            } catch (err) {
+                return handleSqliteErr(err)
+            }
+        },
+
+        async createReview(
+            businessId: core.BusinessId,
+            data: core.CreateReviewData
+        ): core.RepositoryFetchResult<core.Review> {
+            try {
+                const rowId = parseRowId(businessId)
+                if (rowId === undefined) return { type: 'record_not_found' }
+
+                // The review and the aggregates are written together, or not at all
+                return inWriteTransaction(() => {
+                    const business = selectBusiness.get(rowId)
+                    if (business === undefined) {
+                        return { type: 'record_not_found' } as const
+                    }
+
+                    const row = insertReview.get({
+                        business_id: rowId,
+                        text: data.text,
+                        rating: data.rating,
+                        username: data.username,
+                        creation_date: Date.now(),
+                        status: data.detection?.flagged
+                            ? 'pending'
+                            : 'approved',
+                        moderation_reason: null,
+                        fake_score: data.detection?.score ?? 0,
+                        fake_reasons: JSON.stringify(
+                            data.detection?.reasons ?? []
+                        ),
+                        client_ip: data.client_ip ?? null,
+                    })
+                    if (row === undefined) throw new Error('unreachable')
+
+                    const review = SqliteReviewTable.toReview(row)
+                    if (review.status === 'approved') {
+                        writeAggregates(
+                            rowId,
+                            core.addRating(
+                                SqliteBusinessTable.toAggregates(business),
+                                review.rating
+                            )
+                        )
+                    }
+
+                    return { type: 'success', value: review } as const
+                })
+            } catch (err) {
+                return handleSqliteErr(err)
+            }
+        },
+
+        async getReview(
+            businessId: core.BusinessId,
+            reviewId: core.ReviewId
+        ): core.RepositoryFetchResult<core.Review> {
+            try {
+                const businessRowId = parseRowId(businessId)
+                const reviewRowId = parseRowId(reviewId)
+                if (businessRowId === undefined || reviewRowId === undefined) {
+                    return { type: 'record_not_found' }
+                }
+
+                const row = selectReview.get(reviewRowId, businessRowId)
+                if (row === undefined) return { type: 'record_not_found' }
+
+                return {
+                    type: 'success',
+                    value: SqliteReviewTable.toReview(row),
+                }
+            } catch (err) {
+                return handleSqliteErr(err)
+            }
+        },
+
+        async updateReview(
+            businessId: core.BusinessId,
+            reviewId: core.ReviewId,
+            data: core.UpdateReviewData
+        ): core.RepositoryFetchResult<core.Review> {
+            try {
+                const businessRowId = parseRowId(businessId)
+                const reviewRowId = parseRowId(reviewId)
+                if (businessRowId === undefined || reviewRowId === undefined) {
+                    return { type: 'record_not_found' }
+                }
+
+                return inWriteTransaction(() => {
+                    const found = findReviewForWrite(businessRowId, reviewRowId)
+                    if (found.type !== 'found') return found
+
+                    const old = found.review
+                    const review: core.Review = {
+                        ...old,
+                        text: data.text ?? old.text,
+                        rating: data.rating ?? old.rating,
+                    }
+                    db.prepare<[string, number, number]>(
+                        'UPDATE reviews SET text = ?, rating = ? WHERE id = ?'
+                    ).run(review.text, review.rating, reviewRowId)
+
+                    if (old.status === 'approved') {
+                        writeAggregates(
+                            businessRowId,
+                            core.addRating(
+                                core.removeRating(found.aggregates, old.rating),
+                                review.rating
+                            )
+                        )
+                    }
+
+                    return { type: 'success', value: review } as const
+                })
+            } catch (err) {
+                return handleSqliteErr(err)
+            }
+        },
+
+        async deleteReview(
+            businessId: core.BusinessId,
+            reviewId: core.ReviewId
+        ): core.RepositoryFetchResult<core.Review> {
+            try {
+                const businessRowId = parseRowId(businessId)
+                const reviewRowId = parseRowId(reviewId)
+                if (businessRowId === undefined || reviewRowId === undefined) {
+                    return { type: 'record_not_found' }
+                }
+
+                return inWriteTransaction(() => {
+                    const found = findReviewForWrite(businessRowId, reviewRowId)
+                    if (found.type !== 'found') return found
+
+                    db.prepare('DELETE FROM reviews WHERE id = ?').run(
+                        reviewRowId
+                    )
+                    const review = found.review
+                    if (review.status === 'approved') {
+                        writeAggregates(
+                            businessRowId,
+                            core.removeRating(found.aggregates, review.rating)
+                        )
+                    }
+
+                    return { type: 'success', value: review } as const
+                })
+            } catch (err) {
+                return handleSqliteErr(err)
+            }
+        },
+
+        async reportReview(
+            businessId: core.BusinessId,
+            reviewId: core.ReviewId,
+            reason: string
+        ): core.RepositoryFetchResult<core.Review> {
+            try {
+                const businessRowId = parseRowId(businessId)
+                const reviewRowId = parseRowId(reviewId)
+                if (businessRowId === undefined || reviewRowId === undefined) {
+                    return { type: 'record_not_found' }
+                }
+
+                return inWriteTransaction(() => {
+                    const row = selectReview.get(reviewRowId, businessRowId)
+                    if (row === undefined) {
+                        return { type: 'record_not_found' } as const
+                    }
+
+                    db.prepare<[number, string, number]>(
+                        `INSERT INTO review_reports (review_id, reason, creation_date)
+                        VALUES (?, ?, ?)`
+                    ).run(reviewRowId, reason, Date.now())
+                    db.prepare<[number]>(
+                        'UPDATE reviews SET reported = 1 WHERE id = ?'
+                    ).run(reviewRowId)
+
+                    return {
+                        type: 'success',
+                        value: SqliteReviewTable.toReview(row),
+                    } as const
+                })
+            } catch (err) {
+                return handleSqliteErr(err)
+            }
+        },
+
+        async moderateReview(
+            businessId: core.BusinessId,
+            reviewId: core.ReviewId,
+            decision: core.ModerationDecision
+        ): core.RepositoryFetchResult<core.Review> {
+            try {
+                const businessRowId = parseRowId(businessId)
+                const reviewRowId = parseRowId(reviewId)
+                if (businessRowId === undefined || reviewRowId === undefined) {
+                    return { type: 'record_not_found' }
+                }
+
+                return inWriteTransaction(() => {
+                    const found = findReviewForWrite(businessRowId, reviewRowId)
+                    if (found.type !== 'found') return found
+
+                    const old = found.review
+                    const review: core.Review = {
+                        ...old,
+                        status: decision.status,
+                        moderation_reason: decision.reason,
+                    }
+                    db.prepare<[string, string, number]>(
+                        `UPDATE reviews SET status = ?, moderation_reason = ?, reported = 0
+                        WHERE id = ?`
+                    ).run(review.status, decision.reason, reviewRowId)
+
+                    let updated = found.aggregates
+                    if (old.status === 'approved') {
+                        updated = core.removeRating(updated, old.rating)
+                    }
+                    if (review.status === 'approved') {
+                        updated = core.addRating(updated, review.rating)
+                    }
+
+                    // Approving an approved review changes no aggregate, but the latest reviews
+                    // of the business show the new reason
+                    if (
+                        old.status === 'approved' ||
+                        review.status === 'approved'
+                    ) {
+                        writeAggregates(businessRowId, updated)
+                    }
+
+                    return { type: 'success', value: review } as const
+                })
+            } catch (err) {
+                return handleSqliteErr(err)
+            }
+        },
+
+        async replyToReview(
+            businessId: core.BusinessId,
+            reviewId: core.ReviewId,
+            text: string | null,
+            options: { mode: core.ReplyMode }
+        ): core.RepositoryReplyResult {
+            try {
+                const businessRowId = parseRowId(businessId)
+                const reviewRowId = parseRowId(reviewId)
+                if (businessRowId === undefined || reviewRowId === undefined) {
+                    return { type: 'record_not_found' }
+                }
+
+                return inWriteTransaction(() => {
+                    const found = findReviewForWrite(businessRowId, reviewRowId)
+                    if (found.type !== 'found') return found
+
+                    // The review is read in the write transaction, nobody replies meanwhile
+                    const old = found.review
+                    if (options.mode === 'create' && old.reply !== null) {
+                        return { type: 'reply_exists' } as const
+                    }
+                    if (options.mode === 'update' && old.reply === null) {
+                        return { type: 'reply_not_found' } as const
+                    }
+
+                    // Edits keep the creation date of the reply
+                    const now = new Date()
+                    const review: core.Review = {
+                        ...old,
+                        reply:
+                            text === null
+                                ? null
+                                : {
+                                      text,
+                                      creation_date:
+                                          old.reply?.creation_date ?? now,
+                                      update_date: now,
+                                  },
+                    }
+                    db.prepare<
+                        [string | null, number | null, number | null, number]
+                    >(
+                        `UPDATE reviews
+                        SET reply_text = ?, reply_creation_date = ?, reply_update_date = ?
+                        WHERE id = ?`
+                    ).run(
+                        review.reply?.text ?? null,
+                        review.reply?.creation_date.getTime() ?? null,
+                        review.reply?.update_date.getTime() ?? null,
+                        reviewRowId
+                    )
+
+                    // The aggregates stay the same, but the latest reviews of the business change
+                    if (old.status === 'approved')
+                        bumpVersion.run(businessRowId)
+
+                    return { type: 'success', value: review } as const
+                })
+            } catch (err) {
+                return handleSqliteErr(err)
+            }
+        },
+
+        async listModerationQueue(
+            queue: core.ModerationQueue,
+            limit: number
+        ): core.RepositoryListResult<core.ModerationQueueItem[]> {
+            try {
+                let filter: string
+                if (queue === 'pending') {
+                    filter = "status = 'pending'"
+                } else if (queue === 'reported') {
+                    filter = 'reported = 1'
+                } else {
+                    assertNever(queue)
+                }
+
+                const rows = db
+                    .prepare<[number], SqliteReviewRow>(
+                        `SELECT * FROM reviews WHERE ${filter} ORDER BY id LIMIT ?`
+                    )
+                    .all(limit)
+
+                const reports = new Map<number, core.ReviewReport[]>()
+                const reportRows = selectReports.all(
+                    JSON.stringify(rows.map((row) => row.id))
+                )
+                for (const reportRow of reportRows) {
+                    const reviewReports = reports.get(reportRow.review_id) ?? []
+                    reviewReports.push({
+                        reason: reportRow.reason,
+                        creation_date: new Date(reportRow.creation_date),
+                    })
+                    reports.set(reportRow.review_id, reviewReports)
+                }
+
+                return {
+                    type: 'success',
+                    value: rows.map((row) => ({
+                        review: SqliteReviewTable.toReview(row),
+                        reports: reports.get(row.id) ?? [],
+                    })),
+                }
+            } catch (err) {
+                return handleSqliteErr(err)
+            }
+        },
+
+        async findReviews(
+            filter: core.ReviewFilter,
+            limit: number
+        ): core.RepositoryListResult<core.Review[]> {
+            try {
+                const filters: SqlFilter[] = []
+                if (filter.business_id !== undefined) {
+                    // An id that we didn't hand out matches no review
+                    filters.push({
+                        sql: 'business_id = ?',
+                        params: [parseRowId(filter.business_id) ?? 0],
+                    })
+                }
+                if (filter.username !== undefined) {
+                    filters.push({
+                        sql: 'username = ?',
+                        params: [filter.username],
+                    })
+                }
+                if (filter.client_ip !== undefined) {
+                    filters.push({
+                        sql: 'client_ip = ?',
+                        params: [filter.client_ip],
+                    })
+                }
+                if (filter.since !== undefined) {
+                    filters.push({
+                        sql: 'creation_date >= ?',
+                        params: [filter.since.getTime()],
+                    })
+                }
+
+                const where = filters.length
+                    ? `WHERE ${filters
+                          .map((filter) => filter.sql)
+                          .join(' AND ')}`
+                    : ''
+                const rows = db
+                    .prepare<(string | number)[], SqliteReviewRow>(
+                        `SELECT * FROM reviews ${where} ORDER BY id DESC LIMIT ?`
+                    )
+                    .all(...filters.flatMap((filter) => filter.params), limit)
+
+                return {
+                    type: 'success',
+                    value: rows.map(SqliteReviewTable.toReview),
+                }
+            } catch (err) {
+                return handleSqliteErr(err)
+            }
+        },
+
+        async listReviews(
+            businessId: core.BusinessId,
+            query: core.ListReviewsQuery
+        ): core.RepositoryFetchResult<core.ReviewsPage> {
+            try {
+                const rowId = parseRowId(businessId)
+                if (rowId === undefined) return { type: 'record_not_found' }
+                if (selectBusiness.get(rowId) === undefined) {
+                    return { type: 'record_not_found' }
+                }
+
+                const filters: SqlFilter[] = [
+                    { sql: 'business_id = ?', params: [rowId] },
+                    { sql: 'status = ?', params: ['approved'] },
+                ]
+                if (query.rating !== undefined) {
+                    filters.push({ sql: 'rating = ?', params: [query.rating] })
+                }
+                if (query.after !== undefined) {
+                    filters.push(
+                        SqliteReviewListing.filterAfter(query.sort, query.after)
+                    )
+                }
+
+                // We fetch one more review than needed, so we know whether there is a next page
+                const rows = db
+                    .prepare<(string | number)[], SqliteReviewRow>(
+                        `SELECT * FROM reviews
+                        WHERE ${filters
+                            .map((filter) => filter.sql)
+                            .join(' AND ')}
+                        ORDER BY ${SqliteReviewListing.orderBy(query.sort)}
+                        LIMIT ?`
+                    )
+                    .all(
+                        ...filters.flatMap((filter) => filter.params),
+                        query.limit + 1
+                    )
+
+                const page = rows.slice(0, query.limit)
+                const last = page[page.length - 1]
+
+                let next: core.ReviewCursor | null = null
+                if (rows.length > query.limit && last) {
+                    next = { rating: last.rating, seq: last.id }
+                }
+
+                return {
+                    type: 'success',
+                    value: {
+                        reviews: page.map(SqliteReviewTable.toReview),
+                        next,
+                    },
+                }
+            } catch (err) {
+                return handleSqliteErr(err)
+            }
+        },
+    }
+}